@@ -0,0 +1,95 @@
+// src/alerts.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "http";
+import { existsSync, readFileSync } from "fs";
+import { notifications, runSavedSearch, savedSearches, type SavedSearch, type SearchRunner } from "./alerts";
+import { dataPath } from "./db";
+import type { EventItem } from "./providers";
+
+process.env.ALERT_SINKS = "log,webhook"; // sinks are built on first delivery
+
+const show = (id: string): EventItem => ({
+  source: "tm",
+  source_id: id,
+  event_name: `Show ${id}`,
+  artist_name: "Neon Harbor",
+  start_utc: "2031-02-01T02:00:00Z",
+  url: "https://example.com",
+});
+
+function save(id: string, deliver?: SavedSearch["deliver"]) {
+  savedSearches.set(id, { id, owner: `owner-${id}`, name: id, params: {}, deliver, created_at: new Date().toISOString() });
+}
+
+const returning = (ids: string[]): SearchRunner => async () => ids.map(show);
+const mine = (owner: string) => notifications.all().filter(([, n]) => n.owner === owner).map(([, n]) => n);
+
+test("the first run is the baseline; later runs alert only on shows not seen before", async () => {
+  save("diff");
+  assert.deepEqual(await runSavedSearch("diff", returning(["a", "b"])), []);
+  const created = await runSavedSearch("diff", returning(["b", "c"]));
+  assert.deepEqual(created.map((n) => n.event.source_id), ["c"]);
+
+  // "a" dropped out of the results and came back: still known, no second alert
+  assert.deepEqual(await runSavedSearch("diff", returning(["a", "c"])), []);
+  assert.equal(mine("owner-diff").length, 1);
+  assert.ok(existsSync(dataPath("alerts.jsonl")), "log sink writes under DATA_DIR");
+});
+
+test("known ids are capped, keeping the most recently seen", async () => {
+  save("cap");
+  const many = Array.from({ length: 2100 }, (_, i) => `s${i}`);
+  await runSavedSearch("cap", returning(many));
+  await runSavedSearch("cap", returning(["s0", "new"]));
+  const known = savedSearches.get("cap")!.last_ids!;
+  assert.equal(known.length, 2000);
+  assert.deepEqual(known.slice(0, 2), ["tm|s0", "tm|new"]);
+});
+
+test("notifications are capped per user", async () => {
+  save("flood");
+  await runSavedSearch("flood", returning([]));
+  await runSavedSearch("flood", returning(Array.from({ length: 210 }, (_, i) => `f${i}`)));
+  assert.equal(mine("owner-flood").length, 200);
+  assert.equal(mine("owner-diff").length, 1, "other users' notifications untouched");
+});
+
+test("a deleted search is not brought back by a run that was in flight", async () => {
+  save("gone");
+  await runSavedSearch("gone", async () => {
+    savedSearches.delete("gone");
+    return [show("x")];
+  });
+  assert.equal(savedSearches.get("gone"), undefined);
+});
+
+test("the webhook sink posts to the search's own URL and skips searches without one", async () => {
+  const received: any[] = [];
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      received.push({ path: req.url, body: JSON.parse(body) });
+      res.end("ok");
+    });
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  const { port } = server.address() as { port: number };
+  try {
+    save("hooked", { webhook_url: `http://127.0.0.1:${port}/mine` });
+    save("quiet");
+    for (const id of ["hooked", "quiet"]) {
+      await runSavedSearch(id, returning(["old"]));
+      await runSavedSearch(id, returning(["old", `new-${id}`]));
+    }
+    assert.equal(received.length, 1);
+    assert.equal(received[0].path, "/mine");
+    assert.equal(received[0].body.search.id, "hooked");
+    assert.deepEqual(received[0].body.events.map((e: EventItem) => e.source_id), ["new-hooked"]);
+    assert.match(readFileSync(dataPath("alerts.jsonl"), "utf8"), /new-quiet/);
+  } finally {
+    server.close();
+  }
+});
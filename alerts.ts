@@ -0,0 +1,226 @@
+// src/alerts.ts
+import fetch from "node-fetch";
+import { appendFileSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { dataPath, openTable } from "./db";
+import type { EventItem } from "./providers";
+import { newId } from "./util";
+
+/* =========================
+   Saved searches
+   ========================= */
+
+/** Where a search's alerts go, besides GET /api/notifications (each used by its sink, if enabled) */
+export type AlertDelivery = {
+  email?: string;       // smtp sink
+  webhook_url?: string; // webhook sink
+};
+
+export type SavedSearch = {
+  id: string;
+  owner: string;                  // user id
+  name: string;
+  params: Record<string, string>; // /api/events query (lat, lon, radius, days, breadth, ignore)
+  deliver?: AlertDelivery;
+  created_at: string;
+  last_run_at?: string;
+  /** source|source_id of shows seen so far, most recently seen first (capped); undefined until the first run */
+  last_ids?: string[];
+};
+
+export type Notification = {
+  id: string;
+  search_id: string;
+  search_name: string;
+  owner: string;
+  created_at: string;
+  event: EventItem;
+};
+
+export const savedSearches = openTable<SavedSearch>("searches");
+export const notifications = openTable<Notification>("notifications");
+
+/* =========================
+   Sinks (ALERT_SINKS=log,webhook,smtp)
+   ========================= */
+
+// The sinks are the operator's choice; the addresses are each search's own (`deliver`), so a
+// search without an email is simply skipped by the smtp sink.
+
+export interface NotificationSink {
+  id: string;
+  /** one call per search run, with every new show it found */
+  send(search: SavedSearch, items: Notification[]): Promise<void>;
+}
+
+function describe(e: EventItem) {
+  const when = e.start_utc ? new Date(e.start_utc).toUTCString() : "TBA";
+  const where = [e.venue_name, e.city].filter(Boolean).join(", ");
+  return `${e.event_name} — ${where || "venue TBA"} — ${when}${e.url ? ` — ${e.url}` : ""}`;
+}
+
+/** Console + append-only JSONL file */
+function logSink(file: string): NotificationSink {
+  return {
+    id: "log",
+    async send(search, items) {
+      mkdirSync(dirname(file), { recursive: true });
+      for (const n of items) {
+        console.log(`[alert] ${search.name}: ${describe(n.event)}`);
+        appendFileSync(file, JSON.stringify(n) + "\n");
+      }
+    },
+  };
+}
+
+function webhookSink(): NotificationSink {
+  return {
+    id: "webhook",
+    async send(search, items) {
+      const url = search.deliver?.webhook_url;
+      if (!url) return;
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          search: { id: search.id, name: search.name },
+          events: items.map((n) => n.event),
+          text: items.map((n) => describe(n.event)).join("\n"),
+        }),
+      });
+      if (!res.ok) throw new Error(`Webhook ${url} failed: ${res.status} ${await res.text()}`);
+    },
+  };
+}
+
+function smtpSink(smtpUrl: string, from: string): NotificationSink {
+  return {
+    id: "smtp",
+    async send(search, items) {
+      const to = search.deliver?.email;
+      if (!to) return;
+      const nodemailer = await import("nodemailer"); // only loaded when configured
+      const transport = nodemailer.createTransport(smtpUrl);
+      await transport.sendMail({
+        from,
+        to,
+        subject: `${items.length} new show${items.length === 1 ? "" : "s"} for "${search.name}"`,
+        text: items.map((n) => describe(n.event)).join("\n"),
+      });
+    },
+  };
+}
+
+function requiredEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env ${name}`);
+  return v;
+}
+
+const sinkRegistry: Record<string, () => NotificationSink> = {
+  log: () => logSink(process.env.ALERT_LOG_FILE || dataPath("alerts.jsonl")),
+  webhook: () => webhookSink(),
+  smtp: () => smtpSink(requiredEnv("SMTP_URL"), requiredEnv("ALERT_EMAIL_FROM")),
+};
+
+let sinks: NotificationSink[] | null = null;
+
+function getSinks() {
+  if (sinks) return sinks;
+  sinks = (process.env.ALERT_SINKS || "log")
+    .split(",").map((s) => s.trim()).filter(Boolean)
+    .map((id) => {
+      const make = sinkRegistry[id];
+      if (!make) throw new Error(`Unknown alert sink "${id}" (known: ${Object.keys(sinkRegistry).join(", ")})`);
+      return make();
+    });
+  return sinks;
+}
+
+/* =========================
+   Runs + scheduler
+   ========================= */
+
+/** Runs the /api/events pipeline for a saved search on behalf of its owner */
+export type SearchRunner = (search: SavedSearch) => Promise<EventItem[]>;
+
+const eventKey = (e: EventItem) => `${e.source}|${e.source_id}`;
+
+const MAX_KNOWN_IDS = Number(process.env.ALERT_MAX_KNOWN_IDS) || 2000;
+const MAX_NOTIFICATIONS = Number(process.env.ALERT_MAX_NOTIFICATIONS) || 200;
+
+/** Keep each user's newest MAX_NOTIFICATIONS */
+function pruneNotifications(owner: string) {
+  const mine = notifications.all()
+    .filter(([, n]) => n.owner === owner)
+    .sort(([, a], [, b]) => b.created_at.localeCompare(a.created_at));
+  for (const [id] of mine.slice(MAX_NOTIFICATIONS)) notifications.delete(id);
+}
+
+/** Re-run one saved search, diff against the last run, record + deliver new shows */
+export async function runSavedSearch(id: string, runner: SearchRunner): Promise<Notification[]> {
+  const search = savedSearches.get(id);
+  if (!search) throw new Error(`Unknown saved search ${id}`);
+
+  const events = await runner(search);
+  if (!savedSearches.get(id)) return []; // deleted while it ran
+  const seen = new Set(search.last_ids || []);
+  const now = new Date().toISOString();
+
+  // the first run only establishes the baseline
+  const fresh = search.last_ids ? events.filter((e) => !seen.has(eventKey(e))) : [];
+  const created: Notification[] = fresh.map((event) => ({
+    id: newId(),
+    search_id: search.id,
+    search_name: search.name,
+    owner: search.owner,
+    created_at: now,
+    event,
+  }));
+  // one rewrite of the shared table per run, not one per show
+  if (created.length) {
+    notifications.batch(() => {
+      for (const n of created) notifications.set(n.id, n);
+      pruneNotifications(search.owner);
+    });
+  }
+
+  // keep ids from earlier runs too, so a show dropping out of the top results doesn't re-alert
+  // later; this run's first, so the cap drops whatever hasn't been seen for longest
+  savedSearches.set(id, {
+    ...search,
+    last_run_at: now,
+    last_ids: [...new Set([...events.map(eventKey), ...seen])].slice(0, MAX_KNOWN_IDS),
+  });
+
+  if (created.length) {
+    for (const sink of getSinks()) {
+      try { await sink.send(search, created); }
+      catch (e) { console.error(`[alert sink ${sink.id}]`, e); }
+    }
+  }
+  return created;
+}
+
+/** Re-run every saved search every ALERT_INTERVAL_HOURS (default 24), one at a time */
+export function startAlertScheduler(runner: SearchRunner) {
+  const hours = Number(process.env.ALERT_INTERVAL_HOURS) || 24;
+  let running = false;
+
+  async function tick() {
+    if (running) return;
+    running = true;
+    try {
+      for (const [id] of savedSearches.all()) {
+        try { await runSavedSearch(id, runner); }
+        catch (e) { console.error(`[alerts] search ${id}`, e); }
+      }
+    } finally {
+      running = false;
+    }
+  }
+
+  const timer = setInterval(tick, hours * 60 * 60 * 1000);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,61 @@
+// src/aliases.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { aliasesFor, foldName, matchPerformer, MATCH_CONFIDENT, MATCH_MIN, splitBilling, splitCollab, stripBilling } from "./aliases";
+
+const confidence = (billed: string, artist: string) => matchPerformer(billed, artist, aliasesFor(artist))?.confidence ?? 0;
+
+test("names fold stylings, accents and punctuation", () => {
+  assert.equal(foldName("P!nk"), "pink");
+  assert.equal(foldName("Tiësto"), "tiesto");
+  assert.equal(foldName("$uicideboy$"), "suicideboys");
+  assert.equal(foldName("Florence + The Machine"), foldName("Florence and the Machine"));
+});
+
+test("billing qualifiers come off, a leading (G) stays", () => {
+  assert.equal(stripBilling("Honey Static (DJ Set)"), "Honey Static");
+  assert.equal(stripBilling("Marrow Lane - Acoustic"), "Marrow Lane");
+  assert.equal(stripBilling("(G)I-DLE"), "(G)I-DLE");
+});
+
+test("only explicit collaboration markers split an act in two", () => {
+  assert.deepEqual(splitCollab("DJ Sola b2b Low Orbit Club"), ["DJ Sola", "Low Orbit Club"]);
+  assert.deepEqual(splitCollab("Saint Alder feat. Ruth Ocampo"), ["Saint Alder", "Ruth Ocampo"]);
+  assert.deepEqual(splitCollab("Florence and the Machine"), ["Florence and the Machine"]);
+  assert.deepEqual(splitBilling("Hall & Oates"), ["Hall", "Oates"]);
+});
+
+test("exact, alias and qualifier matches are confident", () => {
+  assert.equal(confidence("Neon Harbor", "Neon Harbor"), 1);
+  assert.equal(confidence("Kanye West", "Ye"), 0.95);
+  assert.equal(confidence("방탄소년단", "BTS"), 0.95);
+  assert.equal(confidence("Neon Harbor (DJ Set)", "Neon Harbor"), 0.9);
+});
+
+test("collaborations: the headliner is confident, the guest is flagged", () => {
+  assert.equal(confidence("DJ Sola b2b Low Orbit Club", "DJ Sola"), 0.85);
+  assert.ok(confidence("DJ Sola b2b Low Orbit Club", "Low Orbit Club") < MATCH_CONFIDENT);
+  assert.equal(confidence("Saint Alder presents Ruth Ocampo", "Saint Alder"), 0.85);
+});
+
+test("a word of a band's name is not the band", () => {
+  for (const [billed, artist] of [
+    ["Florence and the Machine", "Florence"],
+    ["Hall & Oates", "Hall"],
+    ["Earth, Wind & Fire", "Earth"],
+    ["Simon & Garfunkel", "Garfunkel"],
+    ["Neon Harbor x Velvet Comet", "Neon Harbor"],
+  ]) {
+    const c = confidence(billed, artist);
+    assert.ok(c < MATCH_CONFIDENT, `${billed} / ${artist}: ${c}`);
+    assert.ok(c >= MATCH_MIN, `${billed} / ${artist} should still be a possible match`);
+  }
+});
+
+test("near-misses are fuzzy at best, short names not at all", () => {
+  assert.ok(confidence("Neon Harbour", "Neon Harbor") >= MATCH_MIN);
+  assert.ok(confidence("Neon Harbour", "Neon Harbor") <= MATCH_CONFIDENT);
+  assert.equal(confidence("Mused", "Muse"), 0);
+  assert.equal(confidence("Glass Animals", "Glass Atlas"), 0);
+});
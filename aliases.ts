@@ -0,0 +1,186 @@
+// src/aliases.ts
+
+/* =========================
+   Artist aliases + billing-aware matching
+   ========================= */
+
+// Providers bill the same act many ways: "Artist & The Band", "Artist (DJ Set)",
+// "Artist b2b Other", "P!nk", "방탄소년단". matchPerformer scores a billed name against a
+// Spotify artist (plus its aliases) instead of demanding exact equality.
+
+export type MatchVia = "exact" | "alias" | "billing" | "fuzzy";
+
+export type ArtistMatch = {
+  confidence: number; // 0..1
+  via: MatchVia;
+};
+
+/** below this a billed name is not the artist */
+export const MATCH_MIN = 0.5;
+/** at or above this we treat it as the artist without flagging it */
+export const MATCH_CONFIDENT = 0.8;
+
+/* ---------------- Curated aliases ---------------- */
+
+// Canonical (Spotify) name → other names promoters use. Both directions are looked up.
+export const CURATED_ALIASES: Record<string, string[]> = {
+  "BTS": ["방탄소년단", "Bangtan Boys", "Bangtan Sonyeondan"],
+  "BLACKPINK": ["블랙핑크"],
+  "SEVENTEEN": ["세븐틴"],
+  "Stray Kids": ["스트레이 키즈"],
+  "(G)I-DLE": ["GIDLE", "G I-DLE", "여자아이들"],
+  "Ye": ["Kanye West"],
+  "P!nk": ["Pink"],
+  "Kesha": ["Ke$ha"],
+  "$uicideboy$": ["Suicideboys", "Suicide Boys"],
+  "Tiësto": ["Tiesto", "DJ Tiësto"],
+  "Prince": ["The Artist Formerly Known As Prince"],
+  "Snoop Dogg": ["Snoop Doggy Dogg", "Snoop Lion"],
+  "Diddy": ["Puff Daddy", "P. Diddy", "Sean Combs"],
+  "Mos Def": ["Yasiin Bey"],
+  "Childish Gambino": ["Donald Glover"],
+  "Macklemore": ["Macklemore & Ryan Lewis"],
+  "Florence + The Machine": ["Florence and the Machine"],
+  "Hall & Oates": ["Daryl Hall & John Oates", "Daryl Hall and John Oates"],
+  "Earth, Wind & Fire": ["Earth Wind and Fire"],
+  "Guns N' Roses": ["Guns N Roses", "Guns and Roses"],
+  "Sigur Rós": ["Sigur Ros"],
+  "Röyksopp": ["Royksopp"],
+  "MØ": ["MO"],
+  "Yoasobi": ["YOASOBI", "ヨアソビ"],
+  "Ado": ["アド"],
+};
+
+/* ---------------- Normalization ---------------- */
+
+const STYLISED: [RegExp, string][] = [
+  [/\$/g, "s"], [/!/g, "i"], [/ø/g, "o"], [/æ/g, "ae"], [/œ/g, "oe"], [/ß/g, "ss"],
+  [/đ/g, "d"], [/ł/g, "l"], [/&/g, " and "], [/\+/g, " and "],
+];
+
+/** Lower-cased, accents and punctuation gone, stylings folded ("P!nk" → "pink"); non-Latin letters kept */
+export function foldName(s?: string) {
+  let out = (s || "").toLowerCase();
+  for (const [re, to] of STYLISED) out = out.replace(re, to);
+  return out
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\u2019']/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+const noArticle = (s: string) => s.replace(/^the /, "");
+
+// "(DJ Set)", "[Live]", " - Acoustic" — a leading "(G)" is part of the name, so only trailing ones
+const BILLING_SUFFIX = /\s+[([][^)\]]*[)\]]|\s+[-–—:]\s+(?:dj set|live|acoustic|unplugged|solo|in concert|tour).*$/gi;
+
+export function stripBilling(s: string) {
+  return s.replace(BILLING_SUFFIX, "").trim();
+}
+
+// explicit collaborations: each side is an act of its own
+const COLLAB_SEP = /\s+(?:b2b|b3b|vs\.?|versus|feat\.?|ft\.?|featuring|presents)\s+/i;
+// also part of plenty of names ("Florence and the Machine", "Hall & Oates", "Earth, Wind & Fire")
+const BILLING_SEP = /\s+(?:&|and|x|×|b2b|b3b|vs\.?|versus|with|w\/|feat\.?|ft\.?|featuring|presents|\+)\s+|\s*[,/|]\s*/i;
+
+/** "A & The Band feat. B (DJ Set)" → ["A", "The Band", "B"] (headliner first) */
+export function splitBilling(s: string) {
+  return stripBilling(s).split(BILLING_SEP).map((p) => p.trim()).filter(Boolean);
+}
+
+/** Split on collaboration markers only: "A b2b B" → ["A", "B"], "A & B" stays whole */
+export function splitCollab(s: string) {
+  return stripBilling(s).split(COLLAB_SEP).map((p) => p.trim()).filter(Boolean);
+}
+
+/* ---------------- Fuzzy similarity ---------------- */
+
+function bigrams(s: string) {
+  const t = s.replace(/ /g, "");
+  const out = new Map<string, number>();
+  for (let i = 0; i < t.length - 1; i++) {
+    const g = t.slice(i, i + 2);
+    out.set(g, (out.get(g) || 0) + 1);
+  }
+  return out;
+}
+
+/** Sørensen–Dice over character bigrams, 0..1 */
+export function similarity(a: string, b: string) {
+  if (a === b) return 1;
+  const A = bigrams(a), B = bigrams(b);
+  let total = 0, shared = 0;
+  for (const n of A.values()) total += n;
+  for (const n of B.values()) total += n;
+  for (const [g, n] of A) shared += Math.min(n, B.get(g) || 0);
+  return total ? (2 * shared) / total : 0;
+}
+
+const FUZZY_MIN = 0.8;      // similarity needed to count at all
+const FUZZY_MIN_LENGTH = 5; // short names are too easy to confuse
+
+/* ---------------- Matching ---------------- */
+
+/**
+ * How likely the billed performer is `artist` (given its aliases).
+ * exact 1 → alias 0.95 → billing qualifiers 0.9 → headliner of a collab (b2b, feat., vs,
+ * presents) 0.85 → other collab part 0.75 → fuzzy (≤ 0.8) → first part of an "and" / "&" / ","
+ * name 0.7 → other such part 0.6. Only the first three tiers clear MATCH_CONFIDENT: "Florence"
+ * is not "Florence and the Machine". Undefined when nothing fits.
+ */
+export function matchPerformer(billed: string, artist: string, aliases: string[] = []): ArtistMatch | undefined {
+  const target = foldName(artist);
+  const b = foldName(billed);
+  if (!b || !target) return undefined;
+  if (b === target) return { confidence: 1, via: "exact" };
+
+  const targets = new Set([target, ...aliases.map(foldName)].filter(Boolean).map(noArticle));
+  if (targets.has(noArticle(b))) return { confidence: 0.95, via: "alias" };
+
+  if (targets.has(noArticle(foldName(stripBilling(billed))))) return { confidence: 0.9, via: "billing" };
+
+  const fold = (parts: string[]) => parts.map((p) => noArticle(foldName(p)));
+  const collab = fold(splitCollab(billed));
+  if (collab.length > 1) {
+    const at = collab.findIndex((p) => targets.has(p));
+    if (at === 0) return { confidence: 0.85, via: "billing" };
+    if (at > 0) return { confidence: 0.75, via: "billing" };
+  }
+
+  let best = 0;
+  for (const t of targets) {
+    if (t.length < FUZZY_MIN_LENGTH) continue;
+    for (const c of [noArticle(b), ...collab]) best = Math.max(best, similarity(t, c));
+  }
+  if (best >= FUZZY_MIN) return { confidence: +(best * MATCH_CONFIDENT).toFixed(2), via: "fuzzy" };
+
+  // a word of the name, or a plain co-bill: worth a flagged "possible match", no more
+  const parts = fold(splitBilling(billed));
+  if (parts.length > 1) {
+    const at = parts.findIndex((p) => targets.has(p));
+    if (at === 0) return { confidence: 0.7, via: "billing" };
+    if (at > 0) return { confidence: 0.6, via: "billing" };
+  }
+  return undefined;
+}
+
+/* ---------------- Alias lookup ---------------- */
+
+/**
+ * Every other name `artist` may be billed under: curated entries (either direction)
+ * plus the user's own table (lower-cased artist → names, see /api/me/aliases).
+ */
+export function aliasesFor(artist: string, userAliases: Record<string, string[]> = {}) {
+  const key = foldName(artist);
+  const out = new Set<string>();
+  for (const [canonical, names] of Object.entries(CURATED_ALIASES)) {
+    const group = [canonical, ...names];
+    if (group.some((n) => foldName(n) === key)) group.forEach((n) => out.add(n));
+  }
+  for (const [name, names] of Object.entries(userAliases)) {
+    if (foldName(name) === key) names.forEach((n) => out.add(n));
+  }
+  for (const n of out) if (foldName(n) === key) out.delete(n);
+  return [...out];
+}
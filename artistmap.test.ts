@@ -0,0 +1,52 @@
+// src/artistmap.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync } from "fs";
+import { dataPath } from "./db";
+import { getMapping, spotifyIdForAttraction, type ArtistOverride } from "./artistmap";
+import { fakeTransport } from "./fake";
+import { ticketmasterProvider } from "./ticketmaster";
+import { getTransport, setTransport } from "./transport";
+
+const DAY = 24 * 60 * 60 * 1000;
+const austin = {
+  lat: 30.2672, lon: -97.7431, radiusMiles: 50,
+  startDateTimeISO: new Date().toISOString(),
+  endDateTimeISO: new Date(Date.now() + 180 * DAY).toISOString(),
+};
+const marrowLane = { spotifyId: "fake4marrowlane" };
+
+async function withFake<T>(fn: () => Promise<T>) {
+  const live = getTransport();
+  setTransport(fakeTransport);
+  try {
+    return await fn();
+  } finally {
+    setTransport(live);
+  }
+}
+
+test("one user's override only changes their own search, not the shared mapping", () => withFake(async () => {
+  // user A points Marrow Lane at a wrong attraction
+  assert.deepEqual(await ticketmasterProvider.findByArtist("Marrow Lane", austin, { ...marrowLane, tmIds: ["bogus"] }), []);
+
+  // user B (no override) still gets the shows, through the resolver's linked mapping
+  const theirs = await ticketmasterProvider.findByArtist("Marrow Lane", austin, marrowLane);
+  assert.ok(theirs.length > 0);
+  assert.ok(theirs.every((e) => e.artist_name === "Marrow Lane"));
+  assert.deepEqual(getMapping("fake4marrowlane")?.tm_ids, ["fake-att-fake4marrowlane"]);
+  assert.equal(getMapping("fake4marrowlane")?.source, "link");
+  assert.ok(existsSync(dataPath("artist-map", "fake4marrowlane.json")), "one file per artist");
+}));
+
+test("an override of [] means not on Ticketmaster: no keyword search either", () => withFake(async () => {
+  assert.deepEqual(await ticketmasterProvider.findByArtist("Marrow Lane", austin, { ...marrowLane, tmIds: [] }), []);
+}));
+
+test("attractions map back to Spotify through the user's overrides first, then linked entries", () => {
+  const mine: Record<string, ArtistOverride> = { "sp-other": { tm_ids: ["fake-att-fake4marrowlane"], set_at: new Date().toISOString() } };
+  assert.equal(spotifyIdForAttraction("fake-att-fake4marrowlane", mine), "sp-other");
+  assert.equal(spotifyIdForAttraction("fake-att-fake4marrowlane"), "fake4marrowlane");
+  assert.equal(spotifyIdForAttraction("unknown"), undefined);
+});
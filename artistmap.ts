@@ -0,0 +1,101 @@
+// src/artistmap.ts
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { dataPath } from "./db";
+
+/* =========================
+   Spotify artist id → Ticketmaster attraction ids
+   ========================= */
+
+// Shared by all users: which attraction(s) a Spotify artist is. Saves a keyword lookup per
+// artist per run, and tells apart artists who share a name. Only ever written by the
+// resolver; a user's own corrections are an ArtistOverride in their preferences and apply
+// to their searches alone. One file per artist under DATA_DIR/artist-map/, since a wide
+// search resolves hundreds of them.
+//   link   — the attraction's externalLinks point at this Spotify artist (authoritative)
+//   name   — best name match, no attraction linked back (re-checked sooner)
+//   none   — nothing found (re-checked sooner still)
+
+export type MappingSource = "link" | "name" | "none";
+
+export type ArtistMapping = {
+  spotify_id: string;
+  name: string;             // Spotify name when resolved, for humans reading the files
+  tm_ids: string[];
+  source: MappingSource;
+  resolved_at: string;
+};
+
+/** A user's correction for one Spotify artist (UserPreferences.artist_map); [] = not on Ticketmaster */
+export type ArtistOverride = {
+  tm_ids: string[];
+  name?: string;
+  set_at: string;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const MAX_AGE: Record<MappingSource, number> = {
+  link: 90 * DAY,
+  name: 14 * DAY,
+  none: 7 * DAY,
+};
+
+const entries = new Map<string, ArtistMapping>();
+let loaded = false;
+
+function entryFile(spotifyId: string) {
+  return dataPath("artist-map", `${spotifyId.replace(/[^A-Za-z0-9_-]/g, "_")}.json`);
+}
+
+/** Read every stored entry once; later reads are served from memory */
+function load() {
+  if (loaded) return;
+  loaded = true;
+  const dir = dataPath("artist-map");
+  if (!existsSync(dir)) return;
+  for (const name of readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+    try {
+      const m: ArtistMapping = JSON.parse(readFileSync(`${dir}/${name}`, "utf8"));
+      entries.set(m.spotify_id, m);
+    } catch (err) {
+      console.error(`Artist mapping ${name} unreadable, skipping`, err);
+    }
+  }
+}
+
+export function getMapping(spotifyId: string): ArtistMapping | undefined {
+  load();
+  return entries.get(spotifyId);
+}
+
+/** The stored mapping, unless it's due for re-resolution */
+export function freshMapping(spotifyId: string): ArtistMapping | undefined {
+  const m = getMapping(spotifyId);
+  if (!m) return undefined;
+  return Date.now() - Date.parse(m.resolved_at) < MAX_AGE[m.source] ? m : undefined;
+}
+
+/** Store a resolver result */
+export function recordMapping(m: Omit<ArtistMapping, "resolved_at">) {
+  load();
+  const entry: ArtistMapping = { ...m, resolved_at: new Date().toISOString() };
+  entries.set(m.spotify_id, entry);
+  const file = entryFile(m.spotify_id);
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(`${file}.tmp`, JSON.stringify(entry));
+  renameSync(`${file}.tmp`, file);
+}
+
+/**
+ * The Spotify artist an attraction belongs to: the user's own overrides first, then linked
+ * entries only — a name guess isn't proof
+ */
+export function spotifyIdForAttraction(tmId: string, overrides: Record<string, ArtistOverride> = {}): string | undefined {
+  const mine = Object.entries(overrides).find(([, o]) => o.tm_ids.includes(tmId));
+  if (mine) return mine[0];
+  load();
+  for (const m of entries.values()) {
+    if (m.source === "link" && m.tm_ids.includes(tmId)) return m.spotify_id;
+  }
+  return undefined;
+}
@@ -0,0 +1,24 @@
+// src/cache.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryStore } from "./cache";
+
+const entry = (value: unknown, ttlMs: number) => ({ value, expires_at: Date.now() + ttlMs });
+
+test("the memory store drops an expired entry when it is read", async () => {
+  const store = createMemoryStore();
+  await store.set("old", entry(1, -1));
+  assert.equal(await store.get("old"), undefined);
+  await store.set("fresh", entry(2, 60_000));
+  assert.equal((await store.get("fresh"))?.value, 2);
+});
+
+test("the memory store stays under its cap, evicting the oldest writes", async () => {
+  const store = createMemoryStore({ maxEntries: 3 });
+  for (const k of ["a", "b", "c"]) await store.set(k, entry(k, 60_000));
+  await store.set("a", entry("a2", 60_000)); // rewritten: now the newest
+  await store.set("d", entry("d", 60_000));
+  assert.equal(await store.get("b"), undefined);
+  assert.deepEqual(await Promise.all(["a", "c", "d"].map(async (k) => (await store.get(k))?.value)), ["a2", "c", "d"]);
+});
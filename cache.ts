@@ -0,0 +1,147 @@
+// src/cache.ts
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+
+/* =========================
+   Stores
+   ========================= */
+
+type CacheEntry = { value: unknown; expires_at: number };
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const SWEEP_MS = 60 * 1000;
+
+/** Process-local store; lost on restart. Expired entries are dropped when read and
+ *  swept at most once a minute on write; past `maxEntries` the oldest writes go first. */
+export function createMemoryStore(opts?: { maxEntries?: number }): CacheStore {
+  const maxEntries = opts?.maxEntries ?? (Number(process.env.CACHE_MAX_ENTRIES) || 5000);
+  const map = new Map<string, CacheEntry>();
+  let lastSweep = Date.now();
+
+  function sweep() {
+    const now = Date.now();
+    if (now - lastSweep >= SWEEP_MS) {
+      lastSweep = now;
+      for (const [k, v] of map) {
+        if (v.expires_at <= now) map.delete(k);
+      }
+    }
+    // Map iterates in insertion order; set() re-inserts, so the first key is the stalest write
+    for (const k of map.keys()) {
+      if (map.size <= maxEntries) break;
+      map.delete(k);
+    }
+  }
+
+  return {
+    async get(key) {
+      const entry = map.get(key);
+      if (entry && entry.expires_at <= Date.now()) {
+        map.delete(key);
+        return undefined;
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      map.delete(key);
+      map.set(key, entry);
+      sweep();
+    },
+    async delete(key) { map.delete(key); },
+  };
+}
+
+/** JSON file store; survives restarts. Writes are debounced. */
+export function createFileStore(file: string): CacheStore {
+  let data: Record<string, CacheEntry> = {};
+  try {
+    if (existsSync(file)) data = JSON.parse(readFileSync(file, "utf8"));
+  } catch (e) {
+    console.error(`Cache file ${file} unreadable, starting empty`, e);
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+  function flush() {
+    timer = null;
+    const now = Date.now();
+    for (const [k, v] of Object.entries(data)) {
+      if (v.expires_at <= now) delete data[k];
+    }
+    try {
+      mkdirSync(dirname(file), { recursive: true });
+      writeFileSync(file, JSON.stringify(data));
+    } catch (e) { console.error(e); }
+  }
+  function schedule() {
+    if (!timer) timer = setTimeout(flush, 1000);
+  }
+
+  return {
+    async get(key) { return data[key]; },
+    async set(key, entry) { data[key] = entry; schedule(); },
+    async delete(key) { delete data[key]; schedule(); },
+  };
+}
+
+/* =========================
+   TTLs per kind of data
+   ========================= */
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export type CacheKind = "tm:attractions" | "tm:events" | "sp:library" | "sp:profile";
+
+function envMs(name: string, fallback: number) {
+  const v = Number(process.env[name]);
+  return Number.isFinite(v) && v > 0 ? v * 1000 : fallback;
+}
+
+const TTL: Record<CacheKind, number> = {
+  "tm:attractions": envMs("CACHE_TTL_TM_ATTRACTIONS", 3 * DAY),   // attraction ids rarely change
+  "tm:events":      envMs("CACHE_TTL_TM_EVENTS", 6 * HOUR),
+  "sp:library":     envMs("CACHE_TTL_SP_LIBRARY", 1 * HOUR),      // liked songs, follows
+  "sp:profile":     envMs("CACHE_TTL_SP_PROFILE", 6 * HOUR),      // top artists
+};
+
+/* =========================
+   Shared cache
+   ========================= */
+
+function defaultStore(): CacheStore {
+  if ((process.env.CACHE_STORE || "memory") === "file") {
+    return createFileStore(process.env.CACHE_FILE || ".cache/responses.json");
+  }
+  return createMemoryStore();
+}
+
+let store: CacheStore = defaultStore();
+
+/** Swap the backing store (e.g. in tests) */
+export function setCacheStore(s: CacheStore) {
+  store = s;
+}
+
+/** Stable short hash, used to keep secrets (tokens, api keys) out of cache keys */
+export function hashKey(s: string) {
+  return createHash("sha256").update(s).digest("hex").slice(0, 16);
+}
+
+/** Return the cached value for (kind, key), or run `load` and cache its result */
+export async function cached<T>(kind: CacheKind, key: string, load: () => Promise<T>): Promise<T> {
+  if (process.env.CACHE_DISABLED === "1") return load();
+
+  const fullKey = `${kind}|${key}`;
+  const hit = await store.get(fullKey);
+  if (hit && hit.expires_at > Date.now()) return hit.value as T;
+
+  const value = await load();
+  await store.set(fullKey, { value, expires_at: Date.now() + TTL[kind] });
+  return value;
+}
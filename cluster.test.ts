@@ -0,0 +1,59 @@
+// src/cluster.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { clusterEvents } from "./cluster";
+import { eventUid } from "./ics";
+import { findTicketmasterEventsByKeywordStrict } from "./ticketmaster";
+import type { EventItem } from "./providers";
+
+const listing = (source_id: string, over: Partial<EventItem> = {}): EventItem => ({
+  source: "tm",
+  source_id,
+  event_name: "Neon Harbor — World Tour",
+  artist_name: "Neon Harbor",
+  venue_name: "The Lantern",
+  lat: 30.27,
+  lon: -97.74,
+  start_utc: "2031-03-01T02:00:00Z",
+  url: `https://example.com/${source_id}`,
+  ...over,
+});
+
+const main = listing("B-main");
+const vip = listing("A-vip", { event_name: "Neon Harbor — World Tour VIP Package" });
+const resale = listing("C-resale", { event_name: "Neon Harbor — World Tour (Verified Resale)", start_utc: "2031-03-01T02:30:00Z" });
+
+test("the plain listing is canonical; the rest become alt_urls", () => {
+  const [show, ...others] = clusterEvents([vip, resale, main]);
+  assert.equal(others.length, 0);
+  assert.equal(show.source_id, "B-main");
+  assert.deepEqual(show.alt_urls, [vip.url, resale.url]);
+});
+
+test("the canonical (and so the calendar UID) doesn't depend on the order listings arrive in", () => {
+  const twin = listing("A-twin", { url: "https://example.com/twin" }); // as good as `main`
+  const orders = [[main, twin, vip], [vip, twin, main], [twin, main, vip]];
+  const uids = orders.map((o) => eventUid(clusterEvents(o)[0]));
+  assert.deepEqual(new Set(uids), new Set(["tm-A-twin@concertsfinder"]));
+});
+
+test("same venue hours apart, another venue, or a TBA date stay separate shows", () => {
+  const matinee = listing("D-matinee", { start_utc: "2031-03-01T20:00:00Z" });
+  const elsewhere = listing("E-elsewhere", { venue_name: "Union Hall" });
+  const tba = listing("F-tba", { start_utc: undefined });
+  assert.equal(clusterEvents([main, matinee, elsewhere, tba]).length, 4);
+});
+
+test("distinct fixture shows are left alone", async () => {
+  const events = await findTicketmasterEventsByKeywordStrict({
+    artistName: "Hans Zimmer",
+    lat: 40.7128,
+    lon: -74.006,
+    radiusMiles: 50,
+    startDateTimeISO: "2031-01-01T00:00:00.000Z",
+    endDateTimeISO: "2031-06-30T23:59:59.000Z",
+  });
+  assert.ok(events.length > 1);
+  assert.deepEqual(clusterEvents(events).map((e) => e.source_id), events.map((e) => e.source_id));
+});
@@ -0,0 +1,70 @@
+// src/cluster.ts
+import type { EventItem } from "./providers";
+import { norm } from "./ticketmaster";
+
+/* =========================
+   Fuzzy event clustering
+   ========================= */
+
+// Listings that are the same show sold a different way
+const SECONDARY_TITLE = /\b(vip|package|packages|upgrade|resale|verified resale|platinum|premium|hospitality|parking|meet greet|soundcheck|suite|suites|fast lane|early entry)\b/;
+
+/** Higher = better candidate for the canonical listing */
+function listingQuality(e: EventItem) {
+  let q = 0;
+  if (!SECONDARY_TITLE.test(norm(e.event_name))) q += 10;
+  if (e.lat != null && e.lon != null) q += 1;
+  if (e.venue_name) q += 1;
+  return q;
+}
+
+function venueKey(e: EventItem) {
+  const v = norm(e.venue_name);
+  if (v) return v;
+  // fall back to ~1km grid when a listing has no venue name
+  if (e.lat != null && e.lon != null) return `${e.lat.toFixed(2)},${e.lon.toFixed(2)}`;
+  return norm(e.city);
+}
+
+/**
+ * Group listings of the same show — same normalized performer + venue, start within
+ * `toleranceMinutes` — into one canonical EventItem. Other listings' URLs land in `alt_urls`.
+ */
+export function clusterEvents(items: EventItem[], opts?: { toleranceMinutes?: number }): EventItem[] {
+  const tolMs = (opts?.toleranceMinutes ?? 120) * 60 * 1000;
+
+  type Cluster = { members: EventItem[]; t: number };
+  const buckets = new Map<string, Cluster[]>();
+  const clusters: Cluster[] = [];
+
+  for (const e of items) {
+    const key = `${norm(e.artist_name)}|${venueKey(e)}`;
+    const t = Date.parse(e.start_utc || "");
+    const list = buckets.get(key) || [];
+
+    // TBA dates only cluster with other TBA listings carrying the same title
+    const hit = list.find((c) =>
+      Number.isNaN(t) || Number.isNaN(c.t)
+        ? Number.isNaN(t) && Number.isNaN(c.t) && norm(c.members[0].event_name) === norm(e.event_name)
+        : Math.abs(c.t - t) <= tolMs
+    );
+
+    if (hit) {
+      hit.members.push(e);
+    } else {
+      const c = { members: [e], t };
+      list.push(c);
+      buckets.set(key, list);
+      clusters.push(c);
+    }
+  }
+
+  return clusters.map(({ members }) => {
+    if (members.length === 1) return members[0];
+    // ties go by listing id, not arrival order: the canonical's id is the calendar UID (ics.ts)
+    const [canonical, ...rest] = [...members].sort((a, b) =>
+      listingQuality(b) - listingQuality(a) || `${a.source}|${a.source_id}`.localeCompare(`${b.source}|${b.source_id}`));
+    const alt_urls = [...new Set(rest.map((e) => e.url).filter((u) => u && u !== canonical.url))];
+    return alt_urls.length ? { ...canonical, alt_urls } : canonical;
+  });
+}
@@ -0,0 +1,32 @@
+// src/db.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, readFileSync } from "fs";
+import { dataPath, openTable } from "./db";
+
+const onDisk = (name: string) => {
+  const file = dataPath(`${name}.json`);
+  return existsSync(file) ? Object.keys(JSON.parse(readFileSync(file, "utf8"))) : [];
+};
+
+test("a batch writes the table once, when it ends", () => {
+  const t = openTable<number>("batched");
+  t.set("a", 1);
+  t.batch(() => {
+    t.set("b", 2);
+    t.batch(() => t.set("c", 3)); // nested: still one write, at the outer end
+    t.delete("a");
+    assert.deepEqual(onDisk("batched"), ["a"]);
+  });
+  assert.deepEqual(onDisk("batched"), ["b", "c"]);
+});
+
+test("a batch that throws still writes what it changed", () => {
+  const t = openTable<number>("batch-throws");
+  assert.throws(() => t.batch(() => {
+    t.set("x", 1);
+    throw new Error("boom");
+  }), /boom/);
+  assert.deepEqual(onDisk("batch-throws"), ["x"]);
+});
@@ -0,0 +1,81 @@
+// src/db.ts
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+
+/* =========================
+   Tiny file-backed tables
+   ========================= */
+
+// One JSON file per table under DATA_DIR. Reads are served from memory; every write
+// rewrites the file (atomic rename), or once per batch(). Fine for per-user records,
+// not for bulk data.
+
+export interface Table<T> {
+  get(id: string): T | undefined;
+  set(id: string, value: T): void;
+  delete(id: string): void;
+  all(): [string, T][];
+  /** Run several set/delete calls with a single rewrite at the end */
+  batch(fn: () => void): void;
+}
+
+const tables = new Map<string, Table<any>>();
+
+function dataDir() {
+  return process.env.DATA_DIR || ".data";
+}
+
+/** Path under DATA_DIR, for modules that keep their own files */
+export function dataPath(...parts: string[]) {
+  return join(dataDir(), ...parts);
+}
+
+export function openTable<T>(name: string): Table<T> {
+  const existing = tables.get(name);
+  if (existing) return existing;
+
+  const file = join(dataDir(), `${name}.json`);
+  let rows: Record<string, T> = {};
+  try {
+    if (existsSync(file)) rows = JSON.parse(readFileSync(file, "utf8"));
+  } catch (e) {
+    console.error(`Table ${file} unreadable, starting empty`, e);
+  }
+
+  let batching = 0;
+  let dirty = false;
+
+  function save() {
+    if (batching) {
+      dirty = true;
+      return;
+    }
+    dirty = false;
+    mkdirSync(dataDir(), { recursive: true });
+    const tmp = `${file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(rows, null, 1));
+    renameSync(tmp, file);
+  }
+
+  const table: Table<T> = {
+    get: (id) => rows[id],
+    set(id, value) { rows[id] = value; save(); },
+    delete(id) {
+      if (!(id in rows)) return;
+      delete rows[id];
+      save();
+    },
+    all: () => Object.entries(rows),
+    batch(fn) {
+      batching++;
+      try {
+        fn();
+      } finally {
+        batching--;
+        if (!batching && dirty) save();
+      }
+    },
+  };
+  tables.set(name, table);
+  return table;
+}
@@ -0,0 +1,152 @@
+// src/eventindex.ts
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { dataPath } from "./db";
+
+/* =========================
+   Shared attraction → upcoming events index
+   ========================= */
+
+// Every upcoming show of an attraction, fetched once (no location, no dates) and shared by
+// every user and every search: Taylor Swift is looked up once per refresh, not once per
+// person per metro. Callers filter by place and dates themselves. One file per attraction
+// under DATA_DIR/event-index/; a scheduler keeps recently used entries fresh.
+
+export type IndexEntry<E = unknown> = {
+  attraction_id: string;
+  fetched_at: number;
+  /** last time a search read it; unused entries stop being refreshed, then go */
+  used_at: number;
+  events: E[];
+  /** the provider had more than we page through (very long tours) */
+  truncated?: boolean;
+};
+
+/** Live lookup of everything upcoming for one attraction */
+export type IndexFetcher<E = unknown> = (attractionId: string) => Promise<{ events: E[]; truncated: boolean }>;
+
+const HOUR = 60 * 60 * 1000;
+const TTL_MS = (Number(process.env.TM_INDEX_TTL_HOURS) || 6) * HOUR;
+const KEEP_MS = (Number(process.env.TM_INDEX_KEEP_DAYS) || 7) * 24 * HOUR;
+const REFRESH_MAX = Number(process.env.TM_INDEX_REFRESH_MAX) || 200;
+
+const entries = new Map<string, IndexEntry>();
+const inFlight = new Map<string, Promise<IndexEntry>>();
+const stats = { hits: 0, misses: 0, refreshed: 0 };
+let loaded = false;
+
+function entryFile(id: string) {
+  return dataPath("event-index", `${id.replace(/[^A-Za-z0-9_-]/g, "_")}.json`);
+}
+
+function save(entry: IndexEntry) {
+  const file = entryFile(entry.attraction_id);
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(`${file}.tmp`, JSON.stringify(entry));
+  renameSync(`${file}.tmp`, file);
+}
+
+/** Read every stored entry once; later reads are served from memory */
+function load() {
+  if (loaded) return;
+  loaded = true;
+  const dir = dataPath("event-index");
+  if (!existsSync(dir)) return;
+  for (const name of readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+    try {
+      const e: IndexEntry = JSON.parse(readFileSync(`${dir}/${name}`, "utf8"));
+      entries.set(e.attraction_id, e);
+    } catch (err) {
+      console.error(`Event index ${name} unreadable, skipping`, err);
+    }
+  }
+}
+
+const isFresh = (e: IndexEntry) => Date.now() - e.fetched_at < TTL_MS;
+
+/** Fetch + store; concurrent misses for the same attraction share one call */
+function refresh<E>(id: string, fetch: IndexFetcher<E>): Promise<IndexEntry<E>> {
+  const running = inFlight.get(id);
+  if (running) return running as Promise<IndexEntry<E>>;
+  const p = (async () => {
+    const { events, truncated } = await fetch(id);
+    const entry: IndexEntry<E> = {
+      attraction_id: id,
+      fetched_at: Date.now(),
+      used_at: entries.get(id)?.used_at ?? Date.now(),
+      events,
+      ...(truncated && { truncated }),
+    };
+    entries.set(id, entry);
+    save(entry);
+    return entry;
+  })().finally(() => inFlight.delete(id));
+  inFlight.set(id, p);
+  return p;
+}
+
+/** The attraction's upcoming events: from the index when fresh, else one live call */
+export async function indexedEvents<E>(id: string, fetch: IndexFetcher<E>): Promise<E[]> {
+  load();
+  const hit = entries.get(id) as IndexEntry<E> | undefined;
+  if (hit && isFresh(hit)) {
+    stats.hits++;
+    hit.used_at = Date.now(); // persisted with the next refresh
+    return hit.events;
+  }
+  stats.misses++;
+  const entry = await refresh(id, fetch);
+  entry.used_at = Date.now();
+  return entry.events;
+}
+
+export function indexStats() {
+  load();
+  return { attractions: entries.size, ttl_hours: TTL_MS / HOUR, ...stats };
+}
+
+/* ---------------- Scheduled refresh ---------------- */
+
+/** One pass: drop entries nobody used for TM_INDEX_KEEP_DAYS, refresh the rest before they go stale */
+export async function refreshIndex(fetch: IndexFetcher) {
+  load();
+  const now = Date.now();
+  for (const [id, e] of entries) {
+    if (now - e.used_at > KEEP_MS) {
+      entries.delete(id);
+      rmSync(entryFile(id), { force: true });
+    }
+  }
+
+  // oldest first, capped per pass so the refresh can't eat the daily quota on its own
+  const due = [...entries.values()]
+    .filter((e) => now - e.fetched_at > TTL_MS / 2)
+    .sort((a, b) => a.fetched_at - b.fetched_at)
+    .slice(0, REFRESH_MAX);
+  for (const e of due) {
+    try {
+      await refresh(e.attraction_id, fetch);
+      stats.refreshed++;
+    } catch (err) {
+      // quota gone or provider down: try again next pass
+      console.error(`[event index] refresh stopped at ${e.attraction_id}`, err);
+      break;
+    }
+  }
+}
+
+/** Refresh every TM_INDEX_TTL_HOURS / 2, one attraction at a time */
+export function startIndexRefresher(fetch: IndexFetcher) {
+  let running = false;
+
+  async function tick() {
+    if (running) return;
+    running = true;
+    try { await refreshIndex(fetch); }
+    finally { running = false; }
+  }
+
+  const timer = setInterval(tick, TTL_MS / 2);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,301 @@
+// src/fake.ts
+import { jsonResponse, type HttpRequest, type HttpResponse, type Transport } from "./transport";
+
+/* =========================
+   Fake Spotify + Ticketmaster (HTTP_TRANSPORT=fake)
+   ========================= */
+
+// `npm run dev:fake`: no credentials, no network. A made-up listener and a made-up event
+// catalog, generated around whatever location is searched so there is always something
+// nearby. Deterministic for a given request, and it exercises the awkward cases too: a
+// festival bill, a "music of" tribute, a cancelled show, presales about to open.
+// Attraction lookups without a location (the shared index, see eventindex.ts) get the same
+// catalog played in each of a handful of big metros instead.
+
+type FakeArtist = { id: string; name: string; genres: string[]; tmGenre: string };
+
+export const FAKE_ARTISTS: FakeArtist[] = [
+  { id: "fake0neonharbor", name: "Neon Harbor", genres: ["synthwave", "indie pop"], tmGenre: "Pop" },
+  { id: "fake1velvetcomet", name: "Velvet Comet", genres: ["psychedelic rock"], tmGenre: "Rock" },
+  { id: "fake2juniper", name: "Juniper & The Foxes", genres: ["indie folk"], tmGenre: "Folk" },
+  { id: "fake3djsola", name: "DJ Sola", genres: ["house", "deep house"], tmGenre: "Dance/Electronic" },
+  { id: "fake4marrowlane", name: "Marrow Lane", genres: ["alt country"], tmGenre: "Country" },
+  { id: "fake5glassatlas", name: "Glass Atlas", genres: ["post-rock"], tmGenre: "Rock" },
+  { id: "fake6kiritanaka", name: "Kiri Tanaka", genres: ["j-pop"], tmGenre: "Pop" },
+  { id: "fake7loworbit", name: "Low Orbit Club", genres: ["indie rock"], tmGenre: "Rock" },
+  { id: "fake8saintalder", name: "Saint Alder", genres: ["neo soul", "r&b"], tmGenre: "R&B" },
+  { id: "fake9honeystatic", name: "Honey Static", genres: ["shoegaze"], tmGenre: "Alternative" },
+  { id: "fakeAruthocampo", name: "Ruth Ocampo", genres: ["latin pop"], tmGenre: "Latin" },
+  { id: "fakeBvantablacks", name: "The Vantablacks", genres: ["garage rock"], tmGenre: "Rock" },
+];
+
+const FAKE_USER = { id: "fake-listener", display_name: "Fake Listener" };
+const TRIBUTE_ACT = { id: "fake-att-tribute", name: "Harbor Lights Orchestra" };
+const FESTIVAL_ACTS = [0, 1, 3, 5, 7, 9, 10, 11];
+const DAY = 24 * 60 * 60 * 1000;
+const TOUR_STOPS = [
+  [40.7128, -74.006], [34.0522, -118.2437], [41.8781, -87.6298], [29.7604, -95.3698],
+  [30.2672, -97.7431], [47.6062, -122.3321], [39.7392, -104.9903], [25.7617, -80.1918],
+  [33.749, -84.388], [42.3601, -71.0589], [37.7749, -122.4194], [36.1627, -86.7816],
+  [51.5074, -0.1278], [43.6532, -79.3832],
+];
+
+/** FNV-1a: small, stable, good enough to spread fake shows around */
+function hash(s: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+const attraction = (a: FakeArtist) => ({
+  id: `fake-att-${a.id}`,
+  name: a.name,
+  externalLinks: { spotify: [{ url: `https://open.spotify.com/artist/${a.id}` }] },
+});
+
+const lc = (s: string) => s.toLowerCase();
+
+const spotifyArtist = (a: FakeArtist) => ({ id: a.id, name: a.name, genres: a.genres, type: "artist" });
+
+/* ---------------- Spotify ---------------- */
+
+type FakePlaylist = { id: string; owner: string; name: string; description?: string; public: boolean; uris: string[] };
+
+// playlists made through the fake API, for this process only
+const fakePlaylists = new Map<string, FakePlaylist>();
+
+const playlistJson = (p: FakePlaylist) => ({
+  id: p.id,
+  name: p.name,
+  description: p.description,
+  public: p.public,
+  owner: { id: p.owner },
+  external_urls: { spotify: `https://open.spotify.com/playlist/${p.id}` },
+  tracks: { total: p.uris.length },
+});
+
+/** Playlist writes: create, change details, replace / append tracks */
+function spotifyWrite(req: HttpRequest, path: string): unknown {
+  const body = JSON.parse(req.body || "{}");
+  const created = path.match(/^\/users\/([^/]+)\/playlists$/);
+  if (created && req.method === "POST") {
+    const p: FakePlaylist = {
+      id: `fake-pl-${hash(`${created[1]}|${body.name}|${Date.now()}|${fakePlaylists.size}`).toString(36)}`,
+      owner: decodeURIComponent(created[1]),
+      name: body.name,
+      description: body.description,
+      public: !!body.public,
+      uris: [],
+    };
+    fakePlaylists.set(p.id, p);
+    return playlistJson(p);
+  }
+
+  const [, id, tracks] = path.match(/^\/playlists\/([^/]+)(\/tracks)?$/) || [];
+  const p = id && fakePlaylists.get(decodeURIComponent(id));
+  if (!p) return undefined;
+  if (!tracks) {
+    Object.assign(p, body.name !== undefined && { name: body.name }, body.description !== undefined && { description: body.description });
+    return "";
+  }
+  p.uris = req.method === "PUT" ? body.uris || [] : [...p.uris, ...(body.uris || [])];
+  return { snapshot_id: `fake-snap-${p.uris.length}` };
+}
+
+function spotify(req: HttpRequest, url: URL): unknown {
+  const path = url.pathname.replace(/^\/v1/, "");
+  if (req.method !== "GET") return spotifyWrite(req, path);
+  if (path === "/me") return FAKE_USER;
+
+  if (path === "/search") {
+    const q = lc(url.searchParams.get("q") || "");
+    const items = FAKE_ARTISTS.filter((a) => q && (lc(a.name).includes(q) || q.includes(lc(a.name)))).map(spotifyArtist);
+    return { artists: { items, total: items.length, next: null } };
+  }
+
+  const top = path.match(/^\/artists\/([^/]+)\/top-tracks$/);
+  if (top) {
+    const a = FAKE_ARTISTS.find((x) => x.id === top[1]);
+    if (!a) return undefined;
+    const tracks = Array.from({ length: 5 }, (_, i) => ({
+      id: `fake-top-${a.id}-${i}`,
+      uri: `spotify:track:fake-top-${a.id}-${i}`,
+      name: `${a.name} Hit ${i + 1}`,
+      artists: [{ id: a.id, name: a.name }],
+    }));
+    return { tracks };
+  }
+
+  const playlist = path.match(/^\/playlists\/([^/]+)$/);
+  if (playlist) {
+    const p = fakePlaylists.get(decodeURIComponent(playlist[1]));
+    return p && playlistJson(p);
+  }
+
+  if (path === "/me/top/artists") {
+    // each range a different slice, so ranks differ a little
+    const shift = { long_term: 0, medium_term: 2, short_term: 4 }[url.searchParams.get("time_range") || ""] ?? 0;
+    const items = FAKE_ARTISTS.slice(shift, shift + 6).map(spotifyArtist);
+    return { items, total: items.length, next: null };
+  }
+
+  if (path === "/me/following") {
+    const items = FAKE_ARTISTS.filter((_, i) => i % 3 === 1).map(spotifyArtist);
+    return { artists: { items, total: items.length, next: null, cursors: { after: null } } };
+  }
+
+  if (path === "/me/tracks") {
+    // 24 liked songs, newest first, weighted towards the first few artists
+    const items = Array.from({ length: 24 }, (_, i) => {
+      const a = FAKE_ARTISTS[(i * i) % 7];
+      return {
+        added_at: new Date(Date.UTC(2025, 0, 1) - i * 3 * DAY).toISOString(),
+        track: { id: `fake-track-${i}`, name: `Song ${i + 1}`, artists: [{ id: a.id, name: a.name }] },
+      };
+    });
+    return { items, total: items.length, limit: 50, offset: 0, next: null };
+  }
+
+  if (path === "/me/player/recently-played") return { items: [] };
+  return undefined;
+}
+
+function token(req: HttpRequest) {
+  const grant = new URLSearchParams(req.body || "").get("grant_type");
+  return {
+    access_token: `fake-access-${Date.now()}`,
+    ...(grant === "authorization_code" && { refresh_token: "fake-refresh" }),
+    token_type: "Bearer",
+    expires_in: 3600,
+    scope: "user-top-read user-library-read user-follow-read playlist-modify-private playlist-modify-public",
+  };
+}
+
+/* ---------------- Ticketmaster ---------------- */
+
+type Search = { lat: number; lon: number; radius: number; start: number; end: number; key: string };
+
+/** A venue `seed` puts somewhere inside the search radius */
+function venue(s: Search, seed: number) {
+  const miles = (0.1 + ((seed >>> 8) % 70) / 100) * s.radius;
+  const bearing = ((seed % 360) * Math.PI) / 180;
+  const lat = s.lat + (miles / 69) * Math.cos(bearing);
+  const lon = s.lon + (miles / (69 * Math.max(0.2, Math.cos((s.lat * Math.PI) / 180)))) * Math.sin(bearing);
+  const names = ["The Lantern", "Union Hall", "Riverside Amphitheater", "Club Meridian", "The Foundry", "Grand Arcade"];
+  return {
+    name: names[seed % names.length],
+    city: { name: "Faketown" },
+    state: { name: "FK" },
+    country: { name: "United States Of America" },
+    location: { latitude: lat.toFixed(5), longitude: lon.toFixed(5) },
+  };
+}
+
+function tmEvent(s: Search, id: string, name: string, acts: { id: string; name: string }[], genre: string, seed: number, extra: object = {}) {
+  const span = Math.max(DAY, s.end - s.start);
+  const start = new Date(s.start + ((seed % 1000) / 1000) * span);
+  start.setUTCHours(2, 0, 0, 0); // ~evening in the Americas
+  const min = 25 + (seed % 60);
+  const presaleAt = Date.now() + (1 + (seed % 5)) * DAY;
+  const onsaleAt = seed % 4 === 0 ? presaleAt + 2 * DAY : Date.now() - 20 * DAY;
+  return {
+    id: `${id}-${s.key}`,
+    name,
+    url: `https://example.com/fake-tickets/${id}`,
+    dates: { start: { dateTime: start.toISOString().replace(/\.\d{3}Z$/, "Z") }, status: { code: "onsale" } },
+    classifications: [{ segment: { name: "Music" }, genre: { name: genre } }],
+    priceRanges: [{ type: "standard", currency: "USD", min, max: min + 40 + (seed % 80) }],
+    sales: {
+      public: { startDateTime: new Date(onsaleAt).toISOString() },
+      ...(seed % 4 === 0 && { presales: [{ name: "Fan Club Presale", startDateTime: new Date(presaleAt).toISOString() }] }),
+    },
+    _embedded: { attractions: acts, venues: [venue(s, seed)] },
+    ...extra,
+  };
+}
+
+/** Every fake show for a search: two per artist, one tribute night, one festival */
+function catalog(s: Search) {
+  const events = FAKE_ARTISTS.flatMap((a, i) => [0, 1].map((k) => {
+    const ev = tmEvent(s, `fake-ev-${a.id}-${k}`, k ? `${a.name}: Live` : `${a.name} — World Tour`, [attraction(a)], a.tmGenre, hash(`${a.id}|${k}`));
+    if (i === 4 && k === 1) ev.dates.status.code = "cancelled";
+    return { ev, acts: [a] };
+  }));
+
+  const tribute = FAKE_ARTISTS[0];
+  events.push({
+    ev: tmEvent(s, "fake-ev-tribute", `The Music of ${tribute.name}`, [TRIBUTE_ACT], tribute.tmGenre, hash("tribute")),
+    acts: [],
+  });
+
+  const fest = FESTIVAL_ACTS.map((i) => FAKE_ARTISTS[i]);
+  events.push({
+    ev: tmEvent(s, "fake-ev-festival", "Fake Fields Festival", fest.map(attraction), "Rock", hash("festival"), {
+      classifications: [{ segment: { name: "Music" }, genre: { name: "Rock" }, subType: { name: "Festival" } }],
+    }),
+    acts: fest,
+  });
+
+  return events;
+}
+
+function ticketmaster(url: URL): unknown {
+  const q = url.searchParams;
+  const path = url.pathname.replace(/^\/discovery\/v2/, "");
+
+  if (path === "/attractions.json") {
+    const kw = lc(q.get("keyword") || "");
+    const hits = FAKE_ARTISTS.filter((a) => kw && (lc(a.name).includes(kw) || kw.includes(lc(a.name))));
+    return hits.length ? { _embedded: { attractions: hits.map(attraction) } } : {};
+  }
+
+  if (path === "/events.json") {
+    const search = (lat: number, lon: number, radius: number): Search => ({
+      lat, lon, radius,
+      start: Date.parse(q.get("startDateTime") || "") || Date.now(),
+      end: Date.parse(q.get("endDateTime") || "") || Date.now() + 180 * DAY,
+      key: hash(`${lat.toFixed(2)},${lon.toFixed(2)}`).toString(36),
+    });
+    const latlong = q.get("latlong");
+    const searches = latlong
+      ? [search(Number(latlong.split(",")[0]), Number(latlong.split(",")[1]), Number(q.get("radius")) || 50)]
+      : TOUR_STOPS.map(([lat, lon]) => search(lat, lon, 30));
+    const attractionId = q.get("attractionId");
+    const kw = lc(q.get("keyword") || "");
+    const genres = (q.get("classificationName") || "Music").split(",").map(lc);
+    const size = Number(q.get("size")) || 20;
+    const page = Number(q.get("page")) || 0;
+
+    const matching = searches.flatMap(catalog)
+      .filter(({ ev, acts }) =>
+        attractionId ? acts.some((a) => attraction(a).id === attractionId) :
+        kw ? lc(ev.name).includes(kw) || acts.some((a) => lc(a.name).includes(kw)) :
+        genres.includes("music") || ev.classifications.some((c) => genres.includes(lc(c.genre.name))))
+      .map(({ ev }) => ev)
+      .sort((a, b) => a.dates.start.dateTime.localeCompare(b.dates.start.dateTime));
+    const events = matching.slice(page * size, (page + 1) * size);
+    const pageInfo = { size, totalElements: matching.length, totalPages: Math.ceil(matching.length / size), number: page };
+    return events.length ? { _embedded: { events }, page: pageInfo } : { page: pageInfo };
+  }
+  return undefined;
+}
+
+/* ---------------- Transport ---------------- */
+
+export const fakeTransport: Transport = {
+  id: "fake",
+  async request(req): Promise<HttpResponse> {
+    const url = new URL(req.url);
+    const body =
+      url.host === "accounts.spotify.com" && url.pathname === "/api/token" ? token(req) :
+      url.host === "api.spotify.com" ? spotify(req, url) :
+      url.host === "app.ticketmaster.com" ? ticketmaster(url) :
+      undefined;
+    return body === undefined
+      ? jsonResponse(404, { error: `fake transport has no ${req.method} ${url.pathname}` })
+      : jsonResponse(200, body);
+  },
+};
@@ -0,0 +1,91 @@
+// src/genres.ts
+import type { TopArtist } from "./spotify";
+import { norm } from "./ticketmaster";
+
+/* =========================
+   Spotify genre → Ticketmaster genre
+   ========================= */
+
+// Spotify genres are free-form micro-genres ("bedroom pop", "uk drill"); Ticketmaster
+// uses a fixed genre list under the Music segment. First matching rule wins.
+const TM_GENRE_RULES: [RegExp, string][] = [
+  [/\b(hip hop|rap|trap|drill|grime|boom bap)\b/, "Hip-Hop/Rap"],
+  [/\b(r b|rnb|soul|neo soul|funk|motown)\b/, "R&B"],
+  [/\b(metal|metalcore|deathcore|djent|doom|sludge)\b/, "Metal"],
+  [/\b(house|techno|edm|electro|electronic|trance|dubstep|drum and bass|dnb|garage|bass music|idm|synthwave|hyperpop)\b/, "Dance/Electronic"],
+  [/\b(country|americana|bluegrass|honky tonk)\b/, "Country"],
+  [/\b(folk|singer songwriter|acoustic)\b/, "Folk"],
+  [/\b(jazz|bebop|swing|big band)\b/, "Jazz"],
+  [/\b(blues)\b/, "Blues"],
+  [/\b(classical|orchestra|opera|baroque|chamber|choral|minimalism)\b/, "Classical"],
+  [/\b(latin|reggaeton|salsa|bachata|cumbia|corrido|corridos|banda|norteno|mexican|urbano)\b/, "Latin"],
+  [/\b(reggae|dancehall|ska|dub)\b/, "Reggae"],
+  [/\b(gospel|worship|christian|ccm)\b/, "Religious"],
+  [/\b(afrobeats|afropop|amapiano|k pop|j pop|bossa nova|flamenco|world)\b/, "World"],
+  [/\b(punk|emo|indie|alternative|shoegaze|grunge|post rock|post punk|new wave|dream pop)\b/, "Alternative"],
+  [/\b(rock)\b/, "Rock"],
+  [/\b(pop)\b/, "Pop"],
+];
+
+export function spotifyGenreToTm(genre: string): string | undefined {
+  const g = norm(genre);
+  return TM_GENRE_RULES.find(([re]) => re.test(g))?.[1];
+}
+
+/* =========================
+   User genre profile
+   ========================= */
+
+export type GenreProfile = {
+  /** TM genre → share of the user's taste (sums to 1) */
+  tm: Map<string, number>;
+  /** normalized Spotify genre → share, for matching TM sub-genres directly */
+  spotify: Map<string, number>;
+};
+
+function normalize(m: Map<string, number>) {
+  const total = [...m.values()].reduce((a, b) => a + b, 0) || 1;
+  for (const [k, v] of m) m.set(k, v / total);
+  return m;
+}
+
+/** Weight each artist's genres by how strongly they feature: top-list position, else 0.5 for follows */
+export function buildGenreProfile(
+  top: Pick<TopArtist, "genres" | "ranks">[],
+  followed: { genres: string[] }[]
+): GenreProfile {
+  const tm = new Map<string, number>();
+  const spotify = new Map<string, number>();
+
+  const add = (genres: string[], weight: number) => {
+    for (const g of genres) {
+      const ng = norm(g);
+      spotify.set(ng, (spotify.get(ng) || 0) + weight);
+      const t = spotifyGenreToTm(g);
+      if (t) tm.set(t, (tm.get(t) || 0) + weight);
+    }
+  };
+
+  for (const a of top) {
+    const best = Math.min(...a.ranks.map(r => r.position));
+    add(a.genres, 1 - 0.5 * (Math.min(best, 50) - 1) / 49);
+  }
+  for (const a of followed) add(a.genres, 0.5);
+
+  return { tm: normalize(tm), spotify: normalize(spotify) };
+}
+
+/** The user's strongest TM genres, for querying providers */
+export function topTmGenres(profile: GenreProfile, n = 5) {
+  return [...profile.tm.entries()].sort((a, b) => b[1] - a[1]).slice(0, n).map(([g]) => g);
+}
+
+/** 0..~1.5 — share of the user's taste an event's genres cover, plus a bonus for exact sub-genre hits */
+export function genreOverlap(eventGenres: string[] | undefined, profile: GenreProfile) {
+  let score = 0;
+  for (const g of eventGenres || []) {
+    score += profile.tm.get(g) || 0;
+    score += 0.5 * (profile.spotify.get(norm(g)) || 0);
+  }
+  return score;
+}
@@ -0,0 +1,39 @@
+// src/geocode.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { offlineGeocoder } from "./geocode";
+
+const at = async (q: string) => {
+  const p = await offlineGeocoder.geocode(q);
+  return p && `${p.name} @ ${p.lat},${p.lon}`;
+};
+
+test("a city alone, with its state or province, or with its country", async () => {
+  assert.equal(await at("Austin"), "Austin, TX, US @ 30.2672,-97.7431");
+  assert.equal(await at("Austin, TX"), await at("Austin"));
+  assert.equal(await at("Austin TX"), await at("Austin"));
+  assert.equal(await at("Austin, Texas"), await at("Austin"));
+  assert.equal(await at("Portland, ME"), "Portland, ME, US @ 43.6574,-70.2589");
+  assert.equal(await at("Montreal, Canada"), "Montréal, QC, CA @ 45.5088,-73.5878");
+  assert.equal(await at("Nowhereville Qzx"), undefined);
+});
+
+test("New York and Washington DC resolve however they're written", async () => {
+  const nyc = "New York City, NY, US @ 40.7143,-74.006";
+  for (const q of ["New York", "New York, NY", "new york ny", "NYC", "New York City", "New York, USA"]) assert.equal(await at(q), nyc, q);
+
+  const dc = "Washington, D.C., DC, US @ 38.8951,-77.0364";
+  for (const q of ["Washington, DC", "Washington DC", "Washington D.C.", "Washington", "DC", "Washington, District of Columbia"]) {
+    assert.equal(await at(q), dc, q);
+  }
+  // an alias doesn't hide the other places of that name
+  assert.equal(await at("Washington, UT"), "Washington, UT, US @ 37.1305,-113.5083");
+});
+
+test("postal codes: US ZIP (+4) and Canadian FSA", async () => {
+  const zip = await offlineGeocoder.geocode("78701-1234");
+  assert.equal(zip?.kind, "postal");
+  assert.match(zip!.name, /^78701 \(Austin, TX\)$/);
+  assert.equal((await offlineGeocoder.geocode("M5V 3L9"))?.admin, "ON");
+});
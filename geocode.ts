@@ -0,0 +1,251 @@
+// src/geocode.ts
+import fetch from "node-fetch";
+import { readFileSync } from "fs";
+import { gunzipSync } from "zlib";
+import { join } from "path";
+import { fileURLToPath } from "url";
+
+/* =========================
+   Types
+   ========================= */
+
+export type Place = {
+  name: string;     // display name, e.g. "Austin, TX, US" or "78701 (Austin, TX)"
+  lat: number;
+  lon: number;
+  kind: "city" | "postal" | "other";
+  country?: string; // ISO 3166-1 alpha-2
+  admin?: string;   // state / province code (US + CA)
+  source: string;   // geocoder id
+};
+
+export interface Geocoder {
+  id: string;
+  /** Best match for a city, "City, State", "City, Country" or postal code; undefined if unknown */
+  geocode(query: string): Promise<Place | undefined>;
+}
+
+/* =========================
+   Offline dataset (geodata/*.tsv.gz, see geodata/build.mjs)
+   ========================= */
+
+type CityRow = { name: string; admin: string; country: string; lat: number; lon: number; population: number };
+type PostalRow = { code: string; admin: string; country: string; lat: number; lon: number; place: string };
+
+const US_STATES: Record<string, string> = {
+  alabama: "AL", alaska: "AK", arizona: "AZ", arkansas: "AR", california: "CA", colorado: "CO",
+  connecticut: "CT", delaware: "DE", "district of columbia": "DC", florida: "FL", georgia: "GA",
+  hawaii: "HI", idaho: "ID", illinois: "IL", indiana: "IN", iowa: "IA", kansas: "KS", kentucky: "KY",
+  louisiana: "LA", maine: "ME", maryland: "MD", massachusetts: "MA", michigan: "MI", minnesota: "MN",
+  mississippi: "MS", missouri: "MO", montana: "MT", nebraska: "NE", nevada: "NV", "new hampshire": "NH",
+  "new jersey": "NJ", "new mexico": "NM", "new york": "NY", "north carolina": "NC", "north dakota": "ND",
+  ohio: "OH", oklahoma: "OK", oregon: "OR", pennsylvania: "PA", "rhode island": "RI",
+  "south carolina": "SC", "south dakota": "SD", tennessee: "TN", texas: "TX", utah: "UT", vermont: "VT",
+  virginia: "VA", washington: "WA", "west virginia": "WV", wisconsin: "WI", wyoming: "WY",
+  "puerto rico": "PR",
+};
+
+const CA_PROVINCES: Record<string, string> = {
+  alberta: "AB", "british columbia": "BC", manitoba: "MB", "new brunswick": "NB",
+  "newfoundland and labrador": "NL", "nova scotia": "NS", ontario: "ON", "prince edward island": "PE",
+  quebec: "QC", saskatchewan: "SK", yukon: "YT", "northwest territories": "NT", nunavut: "NU",
+};
+
+const ADMIN_CODES = new Set([...Object.values(US_STATES), ...Object.values(CA_PROVINCES)].map((c) => c.toLowerCase()));
+
+// the common ways people write a country; anything else can use the 2-letter code
+const COUNTRIES: Record<string, string> = {
+  usa: "US", "united states": "US", "united states of america": "US", america: "US",
+  uk: "GB", "united kingdom": "GB", "great britain": "GB", england: "GB", scotland: "GB", wales: "GB",
+  "northern ireland": "GB", canada: "CA", mexico: "MX", ireland: "IE", australia: "AU",
+  "new zealand": "NZ", germany: "DE", france: "FR", spain: "ES", italy: "IT", netherlands: "NL",
+  belgium: "BE", sweden: "SE", norway: "NO", denmark: "DK", finland: "FI", poland: "PL",
+  austria: "AT", switzerland: "CH", portugal: "PT", brazil: "BR", japan: "JP",
+};
+
+// names people search by that GeoNames files under another name ("New York City",
+// "Washington, D.C.") or not at all; each points at an existing row: [alias, name, admin, country]
+const CITY_ALIASES: [string, string, string, string][] = [
+  ["New York", "New York City", "NY", "US"],
+  ["NYC", "New York City", "NY", "US"],
+  ["Washington", "Washington, D.C.", "DC", "US"],
+  ["DC", "Washington, D.C.", "DC", "US"],
+  ["LA", "Los Angeles", "CA", "US"],
+  ["SF", "San Francisco", "CA", "US"],
+  ["Philly", "Philadelphia", "PA", "US"],
+  ["Vegas", "Las Vegas", "NV", "US"],
+  ["NOLA", "New Orleans", "LA", "US"],
+];
+
+/** lower-case, no accents/punctuation, "Saint" → "St" */
+function normPlace(s: string) {
+  return s
+    .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .replace(/\bsaint\b/g, "st")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function geodataDir() {
+  return process.env.GEODATA_DIR || join(fileURLToPath(new URL(".", import.meta.url)), "geodata");
+}
+
+function readTsv(file: string) {
+  return gunzipSync(readFileSync(join(geodataDir(), file)))
+    .toString("utf8")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => line.split("\t"));
+}
+
+let cityIndex: Map<string, CityRow[]> | null = null;
+let postalIndex: Map<string, PostalRow> | null = null;
+
+function cities() {
+  if (cityIndex) return cityIndex;
+  cityIndex = new Map();
+  for (const [name, admin, country, lat, lon, population] of readTsv("cities.tsv.gz")) {
+    const key = normPlace(name);
+    const row = { name, admin, country, lat: Number(lat), lon: Number(lon), population: Number(population) };
+    const list = cityIndex.get(key);
+    if (list) list.push(row);
+    else cityIndex.set(key, [row]);
+  }
+  for (const [alias, name, admin, country] of CITY_ALIASES) {
+    const row = cityIndex.get(normPlace(name))?.find((c) => c.admin === admin && c.country === country);
+    if (!row) continue;
+    const key = normPlace(alias);
+    cityIndex.set(key, [...(cityIndex.get(key) || []), row]);
+  }
+  return cityIndex;
+}
+
+function postalCodes() {
+  if (postalIndex) return postalIndex;
+  postalIndex = new Map();
+  for (const [code, admin, country, lat, lon, place] of readTsv("postal.tsv.gz")) {
+    postalIndex.set(code.toUpperCase(), { code, admin, country, lat: Number(lat), lon: Number(lon), place });
+  }
+  return postalIndex;
+}
+
+const US_ZIP_RE = /^(\d{5})(?:-\d{4})?$/;
+const CA_POSTAL_RE = /^([A-Z]\d[A-Z])(?:\s*\d[A-Z]\d)?$/i;
+
+function lookupPostal(q: string): Place | undefined {
+  const m = q.match(US_ZIP_RE) || q.match(CA_POSTAL_RE);
+  if (!m) return undefined;
+  const row = postalCodes().get(m[1].toUpperCase());
+  if (!row) return undefined;
+  return {
+    name: `${row.code} (${[row.place, row.admin].filter(Boolean).join(", ")})`,
+    lat: row.lat, lon: row.lon, kind: "postal", country: row.country, admin: row.admin || undefined, source: "offline",
+  };
+}
+
+/** A qualifier after the city: state/province (code or name), or country (code or name) */
+function qualifierFilter(raw: string): ((c: CityRow) => boolean) | undefined {
+  const q = normPlace(raw);
+  if (!q) return undefined;
+  const admin = US_STATES[q] || CA_PROVINCES[q] || (ADMIN_CODES.has(q) ? q.toUpperCase() : undefined);
+  const country = COUNTRIES[q] || (/^[a-z]{2}$/.test(q) ? q.toUpperCase() : undefined);
+  // "CA" / "DE" etc. are both a state and a country — accept either
+  return (c) => (!!admin && c.admin === admin) || (!!country && c.country === country);
+}
+
+function lookupCity(q: string): Place | undefined {
+  let [city, ...quals] = q.split(",").map((s) => s.trim()).filter(Boolean);
+  if (!city) return undefined;
+
+  // "Austin TX" without the comma
+  if (!quals.length) {
+    const m = city.match(/^(.+?)\s+([A-Za-z]{2})$/);
+    if (m && ADMIN_CODES.has(m[2].toLowerCase()) && cities().has(normPlace(m[1]))) [city, quals] = [m[1], [m[2]]];
+  }
+
+  let candidates = cities().get(normPlace(city)) || [];
+  for (const qual of quals) {
+    const keep = qualifierFilter(qual);
+    if (keep) candidates = candidates.filter(keep);
+  }
+  if (!candidates.length) return undefined;
+
+  // sorted by population at build time, but don't rely on it
+  const best = candidates.reduce((a, b) => (b.population > a.population ? b : a));
+  return {
+    name: [best.name, best.admin, best.country].filter(Boolean).join(", "),
+    lat: best.lat, lon: best.lon, kind: "city", country: best.country, admin: best.admin || undefined, source: "offline",
+  };
+}
+
+export const offlineGeocoder: Geocoder = {
+  id: "offline",
+  async geocode(query) {
+    const q = query.trim();
+    return lookupPostal(q) || lookupCity(q);
+  },
+};
+
+/* =========================
+   Nominatim (OpenStreetMap) — needs network; usage policy: max 1 req/s, real User-Agent
+   ========================= */
+
+function nominatimGeocoder(baseUrl: string): Geocoder {
+  return {
+    id: "nominatim",
+    async geocode(query) {
+      const url = `${baseUrl}/search?${new URLSearchParams({ q: query, format: "jsonv2", limit: "1", addressdetails: "1" })}`;
+      const res = await fetch(url, { headers: { "User-Agent": process.env.NOMINATIM_USER_AGENT || "ConcertsFinder" } });
+      if (!res.ok) throw new Error(`Nominatim ${res.status}: ${await res.text()}`);
+      const [hit] = (await res.json()) as any[];
+      if (!hit) return undefined;
+      return {
+        name: hit.display_name,
+        lat: Number(hit.lat),
+        lon: Number(hit.lon),
+        kind: hit.addresstype === "postcode" ? "postal" : ["city", "town", "village"].includes(hit.addresstype) ? "city" : "other",
+        country: hit.address?.country_code?.toUpperCase(),
+        source: "nominatim",
+      };
+    },
+  };
+}
+
+/* =========================
+   Registry (GEOCODER=offline,nominatim — tried in order)
+   ========================= */
+
+const registry: Record<string, () => Geocoder> = {
+  offline: () => offlineGeocoder,
+  nominatim: () => nominatimGeocoder(process.env.NOMINATIM_URL || "https://nominatim.openstreetmap.org"),
+};
+
+let active: Geocoder[] | null = null;
+
+export function getGeocoders(): Geocoder[] {
+  if (active) return active;
+  const ids = (process.env.GEOCODER || "offline")
+    .split(",").map(s => s.trim()).filter(Boolean);
+  active = ids.map((id) => {
+    const make = registry[id];
+    if (!make) throw new Error(`Unknown geocoder "${id}" (known: ${Object.keys(registry).join(", ")})`);
+    return make();
+  });
+  return active;
+}
+
+/** First geocoder with an answer wins; a failing one is logged and skipped */
+export async function geocode(query: string): Promise<Place | undefined> {
+  if (!query.trim()) return undefined;
+  for (const g of getGeocoders()) {
+    try {
+      const hit = await g.geocode(query);
+      if (hit) return hit;
+    } catch (e) {
+      console.error(`[geocoder ${g.id}]`, e);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,52 @@
+// geodata/build.mjs
+// Regenerates the offline geocoder dataset (see geocode.ts):
+//   npm i --no-save all-the-cities zipcodes && node geodata/build.mjs
+// Sources: GeoNames cities1000 via all-the-cities (CC BY 4.0), US ZIP / Canadian FSA centroids via zipcodes (BSD).
+import { createRequire } from "module";
+import { writeFileSync } from "fs";
+import { gzipSync } from "zlib";
+
+const require = createRequire(import.meta.url);
+const cities = require("all-the-cities");
+const usCodes = require("zipcodes/lib/codes.js").codes;
+const caCodes = require("zipcodes/lib/codesCanada.js").codes;
+
+// GeoNames admin1 codes for Canada are numeric
+const CA_ADMIN = {
+  "01": "AB", "02": "BC", "03": "MB", "04": "NB", "05": "NL", "07": "NS", "08": "ON",
+  "09": "PE", "10": "QC", "11": "SK", "12": "YT", "13": "NT", "14": "NU",
+};
+// the FSA's first letter names the province (X is split between NT and NU)
+const FSA_PROVINCE = {
+  A: "NL", B: "NS", C: "PE", E: "NB", G: "QC", H: "QC", J: "QC", K: "ON", L: "ON", M: "ON",
+  N: "ON", P: "ON", R: "MB", S: "SK", T: "AB", V: "BC", X: "", Y: "YT",
+};
+
+const round = (n) => Math.round(n * 1e4) / 1e4;
+const clean = (s) => String(s ?? "").replace(/[\t\n]/g, " ").trim();
+
+// name, admin, country, lat, lon, population — every US/CA town, elsewhere 15k+
+const cityRows = cities
+  .filter((c) => c.country === "US" || c.country === "CA" || c.population >= 15000)
+  .sort((a, b) => b.population - a.population)
+  .map((c) => {
+    const admin = c.country === "US" ? c.adminCode : c.country === "CA" ? CA_ADMIN[c.adminCode] || "" : "";
+    const [lon, lat] = c.loc.coordinates;
+    return [clean(c.name), admin, c.country, round(lat), round(lon), c.population].join("\t");
+  });
+
+// code, admin, country, lat, lon, place
+const postalRows = [
+  ...Object.values(usCodes).map((z) => [z.zip, z.state, "US", round(z.latitude), round(z.longitude), clean(z.city)]),
+  ...Object.values(caCodes).map((z) => [
+    z.zip, FSA_PROVINCE[z.zip[0]] ?? "", "CA", round(z.latitude), round(z.longitude),
+    clean(z.city).replace(/\s*\(.*$/, ""), // "Downtown Toronto (CN Tower / King And Spadina / …)"
+  ]),
+]
+  .filter((r) => r[3] && r[4]) // a few codes have no centroid (0/NaN)
+  .map((r) => r.join("\t"));
+
+const dir = new URL(".", import.meta.url);
+writeFileSync(new URL("cities.tsv.gz", dir), gzipSync(cityRows.join("\n") + "\n", { level: 9 }));
+writeFileSync(new URL("postal.tsv.gz", dir), gzipSync(postalRows.join("\n") + "\n", { level: 9 }));
+console.log(`${cityRows.length} cities, ${postalRows.length} postal codes`);
@@ -0,0 +1,79 @@
+// src/groups.ts
+import { openTable } from "./db";
+import { newId } from "./util";
+
+/* =========================
+   Groups (planning shows together)
+   ========================= */
+
+// Members join through the group's invite link (/join/<token>); a group search combines
+// every member's Spotify signals (see rankGroup in rank.ts). Whoever holds the link can
+// join, so the owner can rotate it.
+
+export type Group = {
+  id: string;
+  name: string;
+  owner: string;       // user id
+  members: string[];   // user ids, owner included, in join order
+  invite_token: string;
+  created_at: string;
+};
+
+export const groups = openTable<Group>("groups");
+
+export const MAX_GROUP_MEMBERS = Number(process.env.GROUP_MAX_MEMBERS) || 12;
+
+export function createGroup(owner: string, name: string): Group {
+  const group: Group = {
+    id: newId(),
+    name,
+    owner,
+    members: [owner],
+    invite_token: newId(24),
+    created_at: new Date().toISOString(),
+  };
+  groups.set(group.id, group);
+  return group;
+}
+
+export function groupsOf(userId: string) {
+  return groups.all().map(([, g]) => g).filter((g) => g.members.includes(userId));
+}
+
+export function groupByInvite(token: string) {
+  return groups.all().map(([, g]) => g).find((g) => g.invite_token === token);
+}
+
+/** Add the user (no-op if already in); throws when the group is full */
+export function joinGroup(id: string, userId: string): Group {
+  const g = groups.get(id);
+  if (!g) throw new Error(`Unknown group ${id}`);
+  if (g.members.includes(userId)) return g;
+  if (g.members.length >= MAX_GROUP_MEMBERS) throw new Error(`"${g.name}" is full (${MAX_GROUP_MEMBERS} members)`);
+  const next = { ...g, members: [...g.members, userId] };
+  groups.set(id, next);
+  return next;
+}
+
+/** Remove a member; an owner leaving hands the group to the longest-standing member, the last one deletes it */
+export function leaveGroup(id: string, userId: string): Group | undefined {
+  const g = groups.get(id);
+  if (!g) return undefined;
+  const members = g.members.filter((m) => m !== userId);
+  if (!members.length) {
+    groups.delete(id);
+    return undefined;
+  }
+  const next = { ...g, members, owner: g.owner === userId ? members[0] : g.owner };
+  groups.set(id, next);
+  return next;
+}
+
+/** New invite link; the old one stops working */
+export function rotateInvite(id: string): Group | undefined {
+  const g = groups.get(id);
+  if (!g) return undefined;
+  const next = { ...g, invite_token: newId(24) };
+  groups.set(id, next);
+  return next;
+}
@@ -0,0 +1,81 @@
+// src/ics.ts
+import type { EventItem } from "./providers";
+
+/* =========================
+   iCalendar (RFC 5545) export
+   ========================= */
+
+const DEFAULT_DURATION_MS = 3 * 60 * 60 * 1000; // providers rarely give an end time
+
+function icsDateTime(ms: number) {
+  return new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}Z$/, "Z");
+}
+
+function escapeText(s: string) {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Fold to 75-octet lines (continuation lines start with a space) */
+function fold(line: string) {
+  const out: string[] = [];
+  let cur = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const n = Buffer.byteLength(ch);
+    if (bytes + n > 75) {
+      out.push(cur);
+      cur = " ";
+      bytes = 1;
+    }
+    cur += ch;
+    bytes += n;
+  }
+  out.push(cur);
+  return out.join("\r\n");
+}
+
+/** Stable per listing, so re-imports/subscriptions update events instead of duplicating them */
+export function eventUid(e: EventItem) {
+  return `${e.source}-${e.source_id}@concertsfinder`;
+}
+
+/** VCALENDAR with one VEVENT per dated event (TBA events are skipped) */
+export function eventsToIcs(events: EventItem[], opts: { name?: string } = {}) {
+  const stamp = icsDateTime(Date.now());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//concertsfinder//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(opts.name || "Concerts")}`,
+  ];
+
+  for (const e of events) {
+    const start = Date.parse(e.start_utc || "");
+    if (Number.isNaN(start)) continue;
+
+    const location = [e.venue_name, e.city, e.state, e.country].filter(Boolean).join(", ");
+    const description = [e.artist_name, e.url].filter(Boolean).join("\n");
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${eventUid(e)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDateTime(start)}`,
+      `DTEND:${icsDateTime(start + DEFAULT_DURATION_MS)}`,
+      `SUMMARY:${escapeText(e.event_name)}`,
+    );
+    if (location) lines.push(`LOCATION:${escapeText(location)}`);
+    if (e.lat != null && e.lon != null) lines.push(`GEO:${e.lat};${e.lon}`);
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+    if (e.url) lines.push(`URL:${e.url}`);
+    // subscribed calendars pick up cancellations on the next refresh
+    if (e.status === "cancelled") lines.push("STATUS:CANCELLED");
+    else if (e.status === "postponed") lines.push("STATUS:TENTATIVE");
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
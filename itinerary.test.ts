@@ -0,0 +1,47 @@
+// src/itinerary.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_LEGS, MAX_LEG_RADIUS, parseItinerary } from "./itinerary";
+import type { SavedLocation } from "./users";
+
+const opts = { radius: 50, days: 30 };
+const home: SavedLocation = { id: "loc1", name: "Home", lat: 40.7128, lon: -74.006 };
+
+test("legs take a name, a place, a radius and dates", async () => {
+  const [austin, denver] = await parseItinerary("Austin@30.27,-97.74/2031-03-03..2031-03-06;Denver@39.74,-104.99~80", opts);
+  assert.equal(austin.name, "Austin");
+  assert.deepEqual([austin.lat, austin.lon, austin.radiusMiles], [30.27, -97.74, 50]);
+  assert.equal(austin.startDateTimeISO, "2031-03-03T00:00:00.000Z");
+  assert.equal(austin.endDateTimeISO, "2031-03-06T23:59:59.000Z");
+  assert.equal(denver.radiusMiles, 80);
+
+  // no dates: today → +days
+  const days = (Date.parse(denver.endDateTimeISO) - Date.parse(denver.startDateTimeISO)) / 86_400_000;
+  assert.equal(days, 30);
+});
+
+test("places resolve from saved locations and the offline geocoder", async () => {
+  const [saved, city, postal] = await parseItinerary("home;Austin, TX;78701", { ...opts, locations: [home] });
+  assert.deepEqual([saved.name, saved.lat], ["Home", 40.7128]);
+  assert.equal(city.name, "Austin, TX, US");
+  assert.equal(city.place?.kind, "city");
+  assert.equal(postal.place?.kind, "postal");
+});
+
+test("repeated places get unique names, since events are tagged with them", async () => {
+  const legs = await parseItinerary("30.27,-97.74/2031-03-01..2031-03-02;30.27,-97.74/2031-04-01..2031-04-02", opts);
+  assert.deepEqual(legs.map((l) => l.name), ["30.27,-97.74", "30.27,-97.74 (2)"]);
+});
+
+test("bad legs are rejected with a readable message", async () => {
+  const rejects = (spec: string, message: RegExp) => assert.rejects(parseItinerary(spec, opts), message);
+  await rejects("", /legs is empty/);
+  await rejects(Array.from({ length: MAX_LEGS + 1 }, () => "30,-97").join(";"), /At most 8 legs/);
+  await rejects("91,0", /not a valid lat,lon/);
+  await rejects("Nowhereville Qzx", /Unknown place/);
+  await rejects(`30.27,-97.74~${MAX_LEG_RADIUS + 1}`, /radius must be 1–200 miles/);
+  await rejects("30.27,-97.74~0", /radius must be/);
+  await rejects("30.27,-97.74/2031-03-06..2031-03-03", /bad dates/);
+  await rejects("30.27,-97.74/2031-03..2031-04", /Can't read leg/);
+});
@@ -0,0 +1,98 @@
+// src/itinerary.ts
+import type { SearchWindow } from "./providers";
+import type { SavedLocation } from "./users";
+import { geocode, type Place } from "./geocode";
+
+/* =========================
+   Multi-location / itinerary search
+   ========================= */
+
+// ?legs=Austin@30.27,-97.74/2026-03-03..2026-03-06;Denver@39.74,-104.99/2026-03-07..2026-03-10
+// Each leg: [name@]place[~radius][/from..to]
+//   place  — "lat,lon", a saved location (id or name, see /api/me/locations),
+//            or anything the geocoder knows ("Austin, TX", "78701")
+//   radius — miles (1–MAX_LEG_RADIUS), default the request's radius
+//   from..to — YYYY-MM-DD, inclusive; default today → +days
+
+export type ItineraryLeg = SearchWindow & {
+  name: string; // unique within the itinerary; events are tagged with it
+  place?: Place; // set when the geocoder resolved it
+};
+
+export const MAX_LEGS = 8;
+/** Ticketmaster searches at most 200 miles around a point; a wider leg would be cut silently */
+export const MAX_LEG_RADIUS = 200;
+
+const LEG_RE = /^(?:([^@]+)@)?([^~/]+)(?:~([\d.]+))?(?:\/(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2}))?$/;
+const LATLON_RE = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** start-of-today UTC → +days, the default window for legs without dates */
+export function defaultWindow(days: number) {
+  const start = new Date();
+  start.setUTCHours(0, 0, 0, 0);
+  return {
+    startDateTimeISO: start.toISOString(),
+    endDateTimeISO: new Date(start.getTime() + days * DAY_MS).toISOString(),
+  };
+}
+
+/** lat,lon → saved location → geocoder */
+export async function resolvePlace(
+  place: string,
+  locations: SavedLocation[]
+): Promise<{ lat: number; lon: number; name: string; place?: Place }> {
+  const m = place.match(LATLON_RE);
+  if (m) {
+    const lat = Number(m[1]), lon = Number(m[2]);
+    if (Math.abs(lat) > 90 || Math.abs(lon) > 180) throw new Error(`"${place}" is not a valid lat,lon`);
+    return { lat, lon, name: `${lat},${lon}` };
+  }
+  const key = place.trim().toLowerCase();
+  const loc = locations.find((l) => l.id === place.trim() || l.name.toLowerCase() === key);
+  if (loc) return { lat: loc.lat, lon: loc.lon, name: loc.name };
+
+  const hit = await geocode(place);
+  if (!hit) throw new Error(`Unknown place "${place.trim()}" (try "City, State", a postal code or lat,lon)`);
+  return { lat: hit.lat, lon: hit.lon, name: hit.name, place: hit };
+}
+
+/** Parse a `legs` spec; throws with a user-facing message on bad input */
+export async function parseItinerary(
+  spec: string,
+  opts: { radius: number; days: number; locations?: SavedLocation[] }
+): Promise<ItineraryLeg[]> {
+  const parts = spec.split(";").map((s) => s.trim()).filter(Boolean);
+  if (!parts.length) throw new Error("legs is empty");
+  if (parts.length > MAX_LEGS) throw new Error(`At most ${MAX_LEGS} legs per search`);
+
+  const names = new Set<string>();
+  const legs: ItineraryLeg[] = [];
+  for (const part of parts) {
+    const m = part.match(LEG_RE);
+    if (!m) throw new Error(`Can't read leg "${part}" (expected [name@]place[~radius][/from..to])`);
+    const [, label, place, radiusStr, from, to] = m;
+
+    const where = await resolvePlace(place, opts.locations || []);
+    const radiusMiles = radiusStr ? Number(radiusStr) : opts.radius;
+    if (!Number.isFinite(radiusMiles) || radiusMiles < 1 || radiusMiles > MAX_LEG_RADIUS) {
+      throw new Error(`Leg "${part}": radius must be 1–${MAX_LEG_RADIUS} miles`);
+    }
+
+    let window = defaultWindow(opts.days);
+    if (from) {
+      const start = Date.parse(`${from}T00:00:00Z`);
+      const end = Date.parse(`${to}T23:59:59Z`);
+      if (Number.isNaN(start) || Number.isNaN(end) || end < start) throw new Error(`Leg "${part}": bad dates`);
+      window = { startDateTimeISO: new Date(start).toISOString(), endDateTimeISO: new Date(end).toISOString() };
+    }
+
+    // names tag events, so keep them unique
+    let name = (label || where.name).trim();
+    for (let i = 2; names.has(name); i++) name = `${(label || where.name).trim()} (${i})`;
+    names.add(name);
+
+    legs.push({ name, lat: where.lat, lon: where.lon, radiusMiles, ...window, ...(where.place && { place: where.place }) });
+  }
+  return legs;
+}
@@ -0,0 +1,88 @@
+// src/jobs.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, writeFileSync } from "fs";
+import { dataPath } from "./db";
+import { cancelJob, enqueue, jobs, loadProgress, startJobWorker, subscribe, type JobEvent, type JobRunner } from "./jobs";
+import type { EventItem } from "./providers";
+
+const show = (artist: string): EventItem => ({
+  source: "tm",
+  source_id: `ev-${artist}`,
+  event_name: `${artist} Live`,
+  artist_name: artist,
+  url: "https://example.com",
+});
+
+const ARTISTS = ["A", "B", "C"];
+const resumedWith: string[][] = [];
+
+// kind=quick runs straight through; kind=slow settles one artist, then waits to be cancelled
+const runner: JobRunner = async (job, hooks) => {
+  const found = [...hooks.resume.events];
+  const todo = ARTISTS.filter((a) => !hooks.resume.done.has(a));
+  resumedWith.push([...hooks.resume.done]);
+  hooks.onStart(ARTISTS.length);
+  for (const artist of todo) {
+    if (hooks.signal.aborted) break;
+    found.push(show(artist));
+    hooks.onArtist(artist, [show(artist)], found.length, ARTISTS.length);
+    if (job.params.kind === "slow") {
+      await new Promise((r) => hooks.signal.addEventListener("abort", r, { once: true }));
+    }
+  }
+  return found;
+};
+
+/** Resolves with the first event of `type` the job emits */
+function next(id: string, type: JobEvent["type"]) {
+  return new Promise<JobEvent>((resolve) => {
+    const off = subscribe(id, (ev) => {
+      if (ev.type !== type) return;
+      off();
+      resolve(ev);
+    });
+  });
+}
+
+test("a job interrupted by a restart resumes after the artists it already finished", async () => {
+  // what a previous process left behind: running, artist A done
+  jobs.set("interrupted", {
+    id: "interrupted", owner: "u1", params: { kind: "quick" }, status: "running",
+    created_at: new Date().toISOString(), done: 1, found: 1, runs: 1,
+  });
+  mkdirSync(dataPath("jobs"), { recursive: true });
+  writeFileSync(dataPath("jobs", "interrupted.json"), JSON.stringify({ artists_done: ["A"], events: [show("A")], failed: [] }));
+
+  const finished = next("interrupted", "finished");
+  startJobWorker(runner);
+  await finished;
+
+  assert.deepEqual(resumedWith[0], ["A"]);
+  const job = jobs.get("interrupted")!;
+  assert.equal(job.status, "done");
+  assert.equal(job.runs, 2);
+  const progress = loadProgress("interrupted");
+  assert.deepEqual(progress.artists_done, ["A", "B", "C"]);
+  assert.deepEqual(progress.ranked!.map((e) => e.artist_name), ["A", "B", "C"]);
+});
+
+test("cancelling keeps what was found; a queued job is cancelled without running", async () => {
+  // the runner starts inside enqueue, so listen first
+  const firstArtist = next("slow", "artist");
+  const slow = enqueue("u1", "slow", { kind: "slow" });
+  const waiting = enqueue("u1", "waiting", { kind: "quick" }); // one job at a time: this one queues
+  assert.equal(waiting.status, "queued");
+  await firstArtist;
+
+  assert.equal(cancelJob("waiting")!.status, "cancelled");
+  const finished = next(slow.id, "finished");
+  cancelJob(slow.id);
+  await finished;
+
+  assert.equal(jobs.get("slow")!.status, "cancelled");
+  assert.deepEqual(loadProgress("slow").ranked!.map((e) => e.artist_name), ["A"]);
+  assert.equal(jobs.get("waiting")!.runs, 0);
+  assert.deepEqual(loadProgress("waiting").artists_done, []);
+});
@@ -0,0 +1,261 @@
+// src/jobs.ts
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { dataPath, openTable } from "./db";
+import type { EventItem, ProviderFailure } from "./providers";
+
+/* =========================
+   Background search jobs
+   ========================= */
+
+// A wide search can take minutes; as a job it outlives the request (and the tab) that
+// started it. The row in the "jobs" table holds status + counters; the bulk — which
+// artists are done, their events, the ranked list — is one file per job under
+// DATA_DIR/jobs/, so a restarted server picks up where it stopped.
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export type SearchJob = {
+  id: string;
+  owner: string;                  // user id
+  params: Record<string, string>; // /api/events search params (SEARCH_SCHEMA)
+  status: JobStatus;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  /** artists to query, once known */
+  total?: number;
+  /** artists queried so far (across restarts) */
+  done: number;
+  /** events found so far, before ranking */
+  found: number;
+  error?: string;
+  /** times a worker picked it up (>1 means it was resumed) */
+  runs: number;
+};
+
+export type JobFailure = ProviderFailure & { artist: string };
+
+export type JobProgress = {
+  artists_done: string[];
+  /** per-artist events as they came in (unranked) */
+  events: EventItem[];
+  failed: JobFailure[];
+  /** the final list, once done (or what was ranked when cancelled) */
+  ranked?: EventItem[];
+};
+
+export const jobs = openTable<SearchJob>("jobs");
+
+const ACTIVE: JobStatus[] = ["queued", "running"];
+export const isActive = (job: SearchJob) => ACTIVE.includes(job.status);
+
+/* ---------------- Progress files ---------------- */
+
+function progressFile(id: string) {
+  return dataPath("jobs", `${id}.json`);
+}
+
+export function loadProgress(id: string): JobProgress {
+  const file = progressFile(id);
+  const empty: JobProgress = { artists_done: [], events: [], failed: [] };
+  if (!existsSync(file)) return empty;
+  try {
+    return { ...empty, ...JSON.parse(readFileSync(file, "utf8")) };
+  } catch (e) {
+    console.error(`Job progress ${file} unreadable, starting over`, e);
+    return empty;
+  }
+}
+
+function saveProgress(id: string, p: JobProgress) {
+  const file = progressFile(id);
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(`${file}.tmp`, JSON.stringify(p));
+  renameSync(`${file}.tmp`, file);
+}
+
+/* ---------------- Subscribers ---------------- */
+
+export type JobEvent =
+  | { type: "progress"; job: SearchJob }
+  | { type: "artist"; artist: string; events: EventItem[]; done: number; total: number }
+  | { type: "failure"; failure: JobFailure }
+  | { type: "finished"; job: SearchJob };
+
+const listeners = new Map<string, Set<(ev: JobEvent) => void>>();
+
+/** Live updates for one job; returns the unsubscribe */
+export function subscribe(id: string, fn: (ev: JobEvent) => void) {
+  if (!listeners.has(id)) listeners.set(id, new Set());
+  listeners.get(id)!.add(fn);
+  return () => {
+    listeners.get(id)?.delete(fn);
+    if (!listeners.get(id)?.size) listeners.delete(id);
+  };
+}
+
+function emit(id: string, ev: JobEvent) {
+  for (const fn of listeners.get(id) || []) {
+    try { fn(ev); } catch (e) { console.error(`[jobs] listener for ${id}`, e); }
+  }
+}
+
+/* ---------------- Worker ---------------- */
+
+export type JobHooks = {
+  /** artists finished by an earlier run and the events they produced */
+  resume: { done: Set<string>; events: EventItem[] };
+  onStart: (total: number) => void;
+  onArtist: (artist: string, events: EventItem[], done: number, total: number) => void;
+  onFailure: (f: JobFailure) => void;
+  signal: AbortSignal;
+};
+
+/** Runs the /api/events pipeline for a job on behalf of its owner; returns the ranked list */
+export type JobRunner = (job: SearchJob, hooks: JobHooks) => Promise<EventItem[]>;
+
+const CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY) || 1);
+const TTL_MS = (Number(process.env.JOB_TTL_HOURS) || 24) * 60 * 60 * 1000;
+const FLUSH_MS = 1000;
+
+const queue: string[] = [];
+const controllers = new Map<string, AbortController>();
+let runner: JobRunner | null = null;
+
+function update(id: string, patch: Partial<SearchJob>) {
+  const job = jobs.get(id);
+  if (!job) return undefined;
+  const next = { ...job, ...patch };
+  jobs.set(id, next);
+  return next;
+}
+
+function finish(id: string, patch: Partial<SearchJob>) {
+  const job = update(id, { ...patch, finished_at: new Date().toISOString() });
+  if (job) emit(id, { type: "finished", job });
+}
+
+async function run(id: string) {
+  const job = update(id, { status: "running", started_at: new Date().toISOString(), runs: (jobs.get(id)?.runs || 0) + 1 });
+  if (!job) return;
+
+  const progress = loadProgress(id);
+  const abort = new AbortController();
+  controllers.set(id, abort);
+
+  // progress is written at most once a second (a wide search settles hundreds of artists)
+  let dirty = false;
+  const flush = () => {
+    if (!dirty || !jobs.get(id)) return;
+    dirty = false;
+    saveProgress(id, progress);
+    update(id, { done: progress.artists_done.length, found: progress.events.length });
+  };
+  const timer = setInterval(flush, FLUSH_MS);
+  timer.unref();
+
+  try {
+    const ranked = await runner!(job, {
+      resume: { done: new Set(progress.artists_done), events: progress.events },
+      signal: abort.signal,
+      onStart: (total) => {
+        const j = update(id, { total });
+        if (j) emit(id, { type: "progress", job: j });
+      },
+      onArtist: (artist, events, done, total) => {
+        progress.artists_done.push(artist);
+        progress.events.push(...events);
+        dirty = true;
+        emit(id, { type: "artist", artist, events, done, total });
+      },
+      onFailure: (failure) => {
+        progress.failed.push(failure);
+        dirty = true;
+        emit(id, { type: "failure", failure });
+      },
+    });
+    clearInterval(timer);
+    progress.ranked = ranked;
+    dirty = true;
+    flush();
+    // deleted while running: nothing left to record
+    if (jobs.get(id)) finish(id, { status: abort.signal.aborted ? "cancelled" : "done", found: progress.events.length });
+  } catch (e: any) {
+    clearInterval(timer);
+    console.error(`[jobs] ${id}`, e);
+    dirty = true;
+    flush();
+    finish(id, { status: "failed", error: e?.message || String(e) });
+  } finally {
+    controllers.delete(id);
+  }
+}
+
+let running = 0;
+
+function pump() {
+  while (runner && running < CONCURRENCY && queue.length) {
+    const id = queue.shift()!;
+    if (jobs.get(id)?.status !== "queued") continue;
+    running++;
+    run(id).finally(() => {
+      running--;
+      pump();
+    });
+  }
+}
+
+export function enqueue(owner: string, id: string, params: Record<string, string>): SearchJob {
+  const job: SearchJob = { id, owner, params, status: "queued", created_at: new Date().toISOString(), done: 0, found: 0, runs: 0 };
+  jobs.set(id, job);
+  queue.push(id);
+  pump();
+  return jobs.get(id)!;
+}
+
+/** Stop a queued or running job; what it found so far is kept */
+export function cancelJob(id: string) {
+  const job = jobs.get(id);
+  if (!job || !isActive(job)) return job;
+  const ctl = controllers.get(id);
+  if (ctl) {
+    // the runner stops picking up artists, ranks what it has and returns
+    ctl.abort();
+    return jobs.get(id);
+  }
+  finish(id, { status: "cancelled" });
+  return jobs.get(id);
+}
+
+export function deleteJob(id: string) {
+  controllers.get(id)?.abort();
+  jobs.delete(id);
+  rmSync(progressFile(id), { force: true });
+}
+
+function pruneFinished() {
+  const cutoff = Date.now() - TTL_MS;
+  for (const [id, job] of jobs.all()) {
+    if (!isActive(job) && job.finished_at && Date.parse(job.finished_at) < cutoff) deleteJob(id);
+  }
+}
+
+/** Start processing; jobs left queued or running by a previous process are resumed.
+ *  Finished jobs are dropped after JOB_TTL_HOURS (default 24). */
+export function startJobWorker(r: JobRunner) {
+  runner = r;
+  const interrupted = jobs.all()
+    .filter(([, j]) => isActive(j))
+    .sort(([, a], [, b]) => a.created_at.localeCompare(b.created_at));
+  for (const [id] of interrupted) {
+    update(id, { status: "queued" });
+    queue.push(id);
+  }
+  pruneFinished();
+  pump();
+
+  const timer = setInterval(pruneFinished, 60 * 60 * 1000);
+  timer.unref();
+  return timer;
+}
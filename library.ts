@@ -0,0 +1,108 @@
+// src/library.ts
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { dataPath } from "./db";
+import { hashKey } from "./cache";
+import {
+  artistsFromSavedTracks,
+  getSavedTracksUntil,
+  type PagingOpts,
+  type SavedTrack,
+  type SpotifyAuth,
+} from "./spotify";
+
+/* =========================
+   Liked Songs snapshot per user
+   ========================= */
+
+// One file per user (a big library is a few MB) under DATA_DIR/library/.
+
+export type LibrarySnapshot = {
+  tracks: SavedTrack[];   // newest-first
+  total: number;          // Spotify's count at the last sync
+  synced_at: string;
+  full_synced_at: string;
+};
+
+const MIN_SYNC_INTERVAL_MS = (Number(process.env.LIBRARY_SYNC_MIN_SECONDS) || 300) * 1000;
+
+function snapshotFile(userId: string) {
+  return dataPath("library", `${hashKey(userId)}.json`);
+}
+
+export function loadSnapshot(userId: string): LibrarySnapshot | undefined {
+  const file = snapshotFile(userId);
+  if (!existsSync(file)) return undefined;
+  try {
+    return JSON.parse(readFileSync(file, "utf8"));
+  } catch (e) {
+    console.error(`Library snapshot ${file} unreadable`, e);
+    return undefined;
+  }
+}
+
+function saveSnapshot(userId: string, snap: LibrarySnapshot) {
+  const file = snapshotFile(userId);
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(`${file}.tmp`, JSON.stringify(snap));
+  renameSync(`${file}.tmp`, file);
+}
+
+const trackKey = (t: SavedTrack) => `${t.id}|${t.added_at}`;
+
+async function fullSync(auth: SpotifyAuth, opts: PagingOpts): Promise<LibrarySnapshot> {
+  const { tracks, total } = await getSavedTracksUntil(auth, undefined, opts);
+  const now = new Date().toISOString();
+  return { tracks, total, synced_at: now, full_synced_at: now };
+}
+
+/** Page only until the newest stored track, then prepend the new ones */
+async function incrementalSync(auth: SpotifyAuth, snap: LibrarySnapshot, opts: PagingOpts): Promise<LibrarySnapshot> {
+  const known = new Set(snap.tracks.map(trackKey));
+  const newest = snap.tracks[0]?.added_at || "";
+  const { tracks, total, complete } = await getSavedTracksUntil(
+    auth,
+    (t) => known.has(trackKey(t)) || (!!newest && t.added_at < newest),
+    opts
+  );
+  // a partial delta can't be merged safely (there'd be a gap); keep the old snapshot
+  if (!complete) return snap;
+
+  const merged = { ...snap, tracks: [...tracks, ...snap.tracks], total, synced_at: new Date().toISOString() };
+  // Un-liked tracks don't show up in a delta; a count mismatch means some were removed
+  if (merged.tracks.length !== total) return fullSync(auth, opts);
+  return merged;
+}
+
+const inFlight = new Map<string, Promise<LibrarySnapshot>>();
+
+/**
+ * Bring the user's snapshot up to date (incremental unless `full`) and return it.
+ * Within LIBRARY_SYNC_MIN_SECONDS of the last sync the stored snapshot is returned as-is.
+ */
+export function syncLibrary(
+  userId: string,
+  auth: SpotifyAuth,
+  opts: PagingOpts & { full?: boolean } = {}
+): Promise<LibrarySnapshot> {
+  const running = inFlight.get(userId);
+  if (running) return running;
+
+  const p = (async () => {
+    const snap = loadSnapshot(userId);
+    if (snap && !opts.full && Date.now() - Date.parse(snap.synced_at) < MIN_SYNC_INTERVAL_MS) return snap;
+
+    const next = snap && !opts.full ? await incrementalSync(auth, snap, opts) : await fullSync(auth, opts);
+    if (next !== snap) saveSnapshot(userId, next);
+    return next;
+  })().finally(() => inFlight.delete(userId));
+
+  inFlight.set(userId, p);
+  return p;
+}
+
+/** Liked Songs artists (same shape as getSavedTrackArtists) from the synced snapshot */
+export async function likedArtists(userId: string, auth: SpotifyAuth, opts: PagingOpts = {}) {
+  const snap = await syncLibrary(userId, auth, opts);
+  return artistsFromSavedTracks(snap.tracks);
+}
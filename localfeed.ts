@@ -0,0 +1,129 @@
+// src/localfeed.ts
+import { readFileSync, statSync } from "fs";
+import type { EventItem, EventProvider, SearchWindow } from "./providers";
+import { distMiles } from "./rank";
+import { norm } from "./ticketmaster";
+import { matchPerformer, MATCH_MIN } from "./aliases";
+
+/* =========================
+   Parsing (.json or .ics)
+   ========================= */
+
+/** JSON: an array of EventItem-like objects (`source` is forced to "local") */
+function parseJsonFeed(text: string): EventItem[] {
+  const raw = JSON.parse(text);
+  const items: any[] = Array.isArray(raw) ? raw : raw?.events || [];
+  return items
+    .filter((e) => e && e.event_name && e.artist_name)
+    .map((e, i) => ({
+      ...e,
+      source: "local",
+      source_id: String(e.source_id ?? e.id ?? i),
+      url: e.url || "",
+    }));
+}
+
+function icsDate(v?: string) {
+  // 20250301T200000Z | 20250301T200000 | 20250301
+  const m = v?.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return undefined;
+  const [, y, mo, d, h = "00", mi = "00", se = "00"] = m;
+  return new Date(`${y}-${mo}-${d}T${h}:${mi}:${se}Z`).toISOString();
+}
+
+function icsText(v?: string) {
+  return v?.replace(/\\n/gi, " ").replace(/\\([,;\\])/g, "$1").trim();
+}
+
+/** ICS: one VEVENT per show. Performer comes from X-ARTIST, else SUMMARY. */
+function parseIcsFeed(text: string): EventItem[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/); // unfold
+  const out: EventItem[] = [];
+  let cur: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") { cur = {}; continue; }
+    if (line === "END:VEVENT" && cur) {
+      const [lat, lon] = (cur.GEO || "").split(";").map(parseFloat);
+      const [venue, city] = (cur.LOCATION || "").split(/(?<!\\),/).map((s) => icsText(s));
+      const summary = icsText(cur.SUMMARY) || "";
+      out.push({
+        source: "local",
+        source_id: cur.UID || `${summary}|${cur.DTSTART}`,
+        event_name: summary,
+        artist_name: icsText(cur["X-ARTIST"]) || summary,
+        venue_name: venue || undefined,
+        city: city || undefined,
+        lat: Number.isNaN(lat) ? undefined : lat,
+        lon: Number.isNaN(lon) ? undefined : lon,
+        start_utc: icsDate(cur.DTSTART),
+        url: cur.URL || "",
+        ...(cur.STATUS?.toUpperCase() === "CANCELLED" && { status: "cancelled" as const }),
+      });
+      cur = null;
+      continue;
+    }
+    if (!cur) continue;
+    const idx = line.indexOf(":");
+    if (idx < 0) continue;
+    const key = line.slice(0, idx).split(";")[0].toUpperCase(); // drop params (DTSTART;TZID=…)
+    cur[key] = line.slice(idx + 1);
+  }
+  return out;
+}
+
+/* =========================
+   Provider
+   ========================= */
+
+/** Events from a local .json/.ics file — handy offline and in tests. Re-read when the file changes. */
+export function localFeedProvider(file: string): EventProvider {
+  let loaded: { mtimeMs: number; events: EventItem[] } | null = null;
+
+  function load(): EventItem[] {
+    const st = statSync(file);
+    if (loaded && loaded.mtimeMs === st.mtimeMs) return loaded.events;
+    const text = readFileSync(file, "utf8");
+    const events = /\.ics$/i.test(file) ? parseIcsFeed(text) : parseJsonFeed(text);
+    loaded = { mtimeMs: st.mtimeMs, events };
+    return events;
+  }
+
+  function inWindow(e: EventItem, w: SearchWindow) {
+    if (e.start_utc) {
+      const t = Date.parse(e.start_utc);
+      if (t < Date.parse(w.startDateTimeISO) || t > Date.parse(w.endDateTimeISO)) return false;
+    }
+    const d = distMiles(w.lat, w.lon, e.lat, e.lon);
+    return !Number.isFinite(d) || d <= w.radiusMiles; // keep events without coordinates
+  }
+
+  return {
+    id: "local",
+
+    async findByArtist(artistName, w, { aliases = [] } = {}) {
+      const out: EventItem[] = [];
+      for (const e of load()) {
+        if (!inWindow(e, w)) continue;
+        // headliner first, then anyone else on the bill
+        const billed = [e.artist_name, ...(e.lineup || []).map((a) => a.name)];
+        const hit = billed
+          .map((name) => ({ name, m: matchPerformer(name, artistName, aliases) }))
+          .find((x) => x.m && x.m.confidence >= MATCH_MIN);
+        if (!hit?.m) continue;
+        out.push(hit.m.via === "exact" && hit.name === e.artist_name
+          ? e
+          : { ...e, artist_name: artistName, ...(hit.m.via !== "exact" && { match: { ...hit.m, billed_as: hit.name } }) });
+      }
+      return out;
+    },
+
+    async findGeneric(w) {
+      const wanted = new Set((w.genres || []).map(norm));
+      return load()
+        .filter((e) => inWindow(e, w))
+        .filter((e) => !wanted.size || (e.genres || []).some((g) => wanted.has(norm(g))))
+        .slice(0, w.size ?? 100);
+    },
+  };
+}
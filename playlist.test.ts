@@ -0,0 +1,65 @@
+// src/playlist.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { performers, playlists, syncConcertPlaylist } from "./playlist";
+import { fakeTransport } from "./fake";
+import { getTransport, setTransport } from "./transport";
+import type { EventItem, LineupAct } from "./providers";
+import type { SpotifyAuth } from "./spotify";
+
+const show = (artist: string, start: string, lineup: LineupAct[] = []): EventItem => ({
+  source: "tm",
+  source_id: `${artist}-${start}`,
+  event_name: artist,
+  artist_name: artist,
+  start_utc: start,
+  url: "https://example.com",
+  ...(lineup.length && { lineup }),
+});
+
+const events = [
+  show("Velvet Comet", "2031-03-01T02:00:00Z", [
+    { name: "Velvet Comet", role: "headliner" },
+    { name: "Honey Static", role: "support" },
+  ]),
+  show("Neon Harbor", "2031-02-01T02:00:00Z"),
+  show("Honey Static", "2031-04-01T02:00:00Z"),
+  show("Nobody Anyone Knows", "2031-05-01T02:00:00Z"),
+];
+
+const auth: SpotifyAuth = { tokens: { access_token: "fake-access", refresh_token: "fake-refresh", expires_at: Date.now() + 3600_000 } };
+const opts = { name: "Upcoming", tracksPerArtist: 2, acts: "all" as const };
+
+test("performers come in show order, support acts included, each once", () => {
+  assert.deepEqual(performers(events).map((a) => a.name), ["Neon Harbor", "Velvet Comet", "Honey Static", "Nobody Anyone Knows"]);
+  assert.deepEqual(performers(events.slice(0, 1), "headliners").map((a) => a.name), ["Velvet Comet"]);
+});
+
+test("the playlist holds each found artist's top tracks in show order; unknown acts are reported", async () => {
+  const live = getTransport();
+  setTransport(fakeTransport);
+  try {
+    const { playlist, created, missing } = await syncConcertPlaylist("fake-listener", auth, events, opts);
+    assert.ok(created);
+    assert.deepEqual(playlist!.artists.map((a) => a.name), ["Neon Harbor", "Velvet Comet", "Honey Static"]);
+    assert.equal(playlist!.tracks, 6);
+    assert.deepEqual(missing, ["Nobody Anyone Knows"]);
+  } finally {
+    setTransport(live);
+  }
+});
+
+test("running it again rewrites the same playlist", async () => {
+  const live = getTransport();
+  setTransport(fakeTransport);
+  try {
+    const first = await syncConcertPlaylist("fake-listener", auth, events, opts);
+    const again = await syncConcertPlaylist("fake-listener", auth, events.slice(1, 2), opts);
+    assert.equal(again.created, false);
+    assert.equal(again.playlist!.playlist_id, first.playlist!.playlist_id);
+    assert.equal(playlists.get("fake-listener")!.tracks, 2);
+  } finally {
+    setTransport(live);
+  }
+});
@@ -0,0 +1,148 @@
+// src/playlist.ts
+import { openTable } from "./db";
+import { aliasesFor, matchPerformer, MATCH_CONFIDENT } from "./aliases";
+import { spotifyIdForAttraction, type ArtistOverride } from "./artistmap";
+import type { EventItem, LineupAct } from "./providers";
+import {
+  createPlaylist, getArtistTopTracks, getPlaylist, replacePlaylistTracks, searchArtists,
+  updatePlaylistDetails, type SpotifyAuth,
+} from "./spotify";
+import { runLimited } from "./util";
+
+/* =========================
+   Upcoming-shows playlist
+   ========================= */
+
+// Top tracks by everyone playing the shows you're looking at, in show order, so you can
+// get to know the support acts before the night. One playlist per user: the id is kept in
+// the "playlists" table and running it again rewrites that playlist instead of adding
+// another one (unless the user deleted it in Spotify, then it's made afresh).
+
+export type ConcertPlaylist = {
+  playlist_id: string;
+  name: string;
+  url?: string;
+  updated_at: string;
+  /** artists with tracks in it, in order */
+  artists: { name: string; spotify_id: string }[];
+  tracks: number;
+};
+
+export const playlists = openTable<ConcertPlaylist>("playlists"); // by user id
+
+export type PlaylistOptions = {
+  name: string;
+  tracksPerArtist: number;
+  /** "headliners": skip support acts and festival undercards */
+  acts: "all" | "headliners";
+  public?: boolean;
+  /** the user's attraction overrides (UserPreferences.artist_map) */
+  overrides?: Record<string, ArtistOverride>;
+};
+
+type Act = { name: string; tmId?: string };
+
+/** Everyone performing, by show date then billing order, each act once */
+export function performers(events: EventItem[], acts: PlaylistOptions["acts"] = "all"): Act[] {
+  const byDate = [...events].sort((a, b) => (a.start_utc || "~").localeCompare(b.start_utc || "~"));
+  const seen = new Set<string>();
+  const out: Act[] = [];
+  for (const e of byDate) {
+    const lineup = e.lineup?.length ? e.lineup : [{ name: e.artist_name, role: "headliner" } as LineupAct];
+    // festivals bill everyone as "performer": keep the first act as the draw
+    const bill = acts === "headliners" ? lineup.filter((a, i) => a.role === "headliner" || (e.festival && i === 0)) : lineup;
+    for (const a of bill) {
+      const key = a.name.trim().toLowerCase();
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      out.push({ name: a.name, tmId: a.id });
+    }
+  }
+  return out;
+}
+
+/** The act's Spotify artist: through the attraction mapping when there is one, else a confident name search */
+async function resolveArtist(auth: SpotifyAuth, act: Act, overrides?: Record<string, ArtistOverride>): Promise<string | undefined> {
+  const mapped = act.tmId && spotifyIdForAttraction(act.tmId, overrides);
+  if (mapped) return mapped;
+  const candidates = await searchArtists(auth, act.name);
+  const best = candidates
+    .map((c) => ({ id: c.id, confidence: matchPerformer(act.name, c.name, aliasesFor(c.name))?.confidence ?? 0 }))
+    .sort((a, b) => b.confidence - a.confidence)[0];
+  return best && best.confidence >= MATCH_CONFIDENT ? best.id : undefined;
+}
+
+const MAX_ARTISTS = Number(process.env.PLAYLIST_MAX_ARTISTS) || 100;
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Create or refresh the user's playlist (user ids are Spotify ids) from `events`. Acts that
+ * can't be matched to a Spotify artist with confidence are left out and reported in `missing`;
+ * when none match, the playlist is left alone and `playlist` is undefined.
+ */
+export function syncConcertPlaylist(
+  userId: string,
+  auth: SpotifyAuth,
+  events: EventItem[],
+  opts: PlaylistOptions
+): Promise<{ playlist?: ConcertPlaylist; created: boolean; missing: string[] }> {
+  // a double click shouldn't make two playlists
+  const running = inFlight.get(userId);
+  if (running) return running as ReturnType<typeof syncConcertPlaylist>;
+
+  const p = (async () => {
+    const acts = performers(events, opts.acts).slice(0, MAX_ARTISTS);
+    const missing: string[] = [];
+    const resolved = await runLimited(acts, async (act) => {
+      const id = await resolveArtist(auth, act, opts.overrides);
+      if (!id) {
+        missing.push(act.name);
+        return [];
+      }
+      const tracks = await getArtistTopTracks(auth, id);
+      return { act, id, uris: tracks.slice(0, opts.tracksPerArtist).map((t) => t.uri) };
+    }, 2, 120, { onError: (act) => missing.push(act.name) });
+
+    // runLimited settles out of order: put the acts back in show order
+    const order = new Map(acts.map((a, i) => [a, i]));
+    resolved.sort((a, b) => order.get(a.act)! - order.get(b.act)!);
+
+    const seen = new Set<string>();
+    const uris: string[] = [];
+    const artists: ConcertPlaylist["artists"] = [];
+    for (const r of resolved) {
+      const fresh = r.uris.filter((u) => !seen.has(u));
+      if (!fresh.length || artists.some((a) => a.spotify_id === r.id)) continue;
+      fresh.forEach((u) => seen.add(u));
+      uris.push(...fresh);
+      artists.push({ name: r.act.name, spotify_id: r.id });
+    }
+
+    if (!uris.length) return { created: false, missing };
+
+    const description = `Top tracks from ${artists.length} artists playing upcoming shows, in show order. Updated ${new Date().toISOString().slice(0, 10)} by Concerts Finder.`;
+    const stored = playlists.get(userId);
+    const existing = stored && (await getPlaylist(auth, stored.playlist_id));
+    const target = existing && existing.owner === userId
+      ? existing
+      : await createPlaylist(auth, userId, { name: opts.name, description, public: !!opts.public });
+    const created = target !== existing;
+    if (!created) await updatePlaylistDetails(auth, target.id, { name: opts.name, description });
+    await replacePlaylistTracks(auth, target.id, uris);
+
+    const playlist: ConcertPlaylist = {
+      playlist_id: target.id,
+      name: opts.name,
+      url: target.url,
+      updated_at: new Date().toISOString(),
+      artists,
+      tracks: uris.length,
+    };
+    playlists.set(userId, playlist);
+    return { playlist, created, missing };
+  })().finally(() => inFlight.delete(userId));
+
+  inFlight.set(userId, p);
+  return p;
+}
@@ -0,0 +1,183 @@
+// src/providers.ts
+import { ticketmasterProvider } from "./ticketmaster";
+import { localFeedProvider } from "./localfeed";
+import type { ArtistMatch } from "./aliases";
+
+/* =========================
+   Shared event shape
+   ========================= */
+
+export type EventItem = {
+  /** id of the provider that produced it ("tm", "local", …) */
+  source: string;
+  source_id: string;
+  event_name: string;
+  artist_name: string;
+  venue_name?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  lat?: number;
+  lon?: number;
+  start_utc?: string;
+  url: string;
+  /** other listings of the same show (resale, VIP packages, other providers) */
+  alt_urls?: string[];
+  /** provider genre names (TM genre/sub-genre) */
+  genres?: string[];
+  /** surfaced by genre discovery — the user doesn't listen to this artist yet */
+  discovery?: boolean;
+  /** itinerary leg (see itinerary.ts) the show was found for */
+  leg?: string;
+  /** how the billed performer was matched to the artist, when it wasn't an exact name match */
+  match?: ArtistMatch & { billed_as: string };
+  /** everyone on the bill, in billing order */
+  lineup?: LineupAct[];
+  festival?: boolean;
+  /** set by rank(): how many acts on the bill are the user's artists */
+  your_acts?: number;
+  /** set by rank(): the best listening tier among the user's acts on the bill */
+  tier?: ArtistTier;
+  /** set by rank(): miles from the search origin (or the event's leg) */
+  distance_miles?: number;
+  /** set by rankGroup(): which members have acts on the bill */
+  group?: GroupFit;
+
+  /* tickets (whatever the provider reports) */
+  min_price?: number;
+  max_price?: number;
+  currency?: string;
+  status?: EventStatus;
+  /** on sale, but the provider has stopped selling before the sale window closed */
+  sold_out?: boolean;
+  onsale_at?: string;   // public on-sale start (UTC)
+  offsale_at?: string;  // public on-sale end (UTC)
+  presales?: Presale[];
+  seatmap_url?: string;
+  image_url?: string;
+};
+
+export type ArtistTier = "liked" | "top" | "followed" | "other" | "discovery";
+
+export type MemberMatch = {
+  id: string;
+  name: string;
+  tier: ArtistTier;
+  /** the member's artists on the bill */
+  acts: string[];
+  /** the member's artist points for this show */
+  interest: number;
+};
+
+export type GroupFit = { mode: string; matched: number; of: number; members: MemberMatch[] };
+
+export type EventStatus = "onsale" | "offsale" | "cancelled" | "postponed" | "rescheduled";
+
+export type Presale = { name: string; start?: string; end?: string };
+
+export type LineupAct = {
+  name: string;
+  role: "headliner" | "support" | "performer"; // festivals: everyone is a "performer"
+  id?: string;     // provider's id for the act
+  yours?: boolean; // set by rank(): one of the user's artists
+};
+
+/** Generic (not per-artist) search options */
+export type GenericSearch = SearchWindow & {
+  size?: number;
+  /** provider genre names to restrict to (any of) */
+  genres?: string[];
+};
+
+/** Where + when to look */
+export type SearchWindow = {
+  lat: number;
+  lon: number;
+  radiusMiles: number;
+  startDateTimeISO: string;
+  endDateTimeISO: string;
+};
+
+export interface EventProvider {
+  id: string;
+  /** Events where `artistName` (or one of its aliases) is the performer */
+  findByArtist(artistName: string, w: SearchWindow, hints?: ArtistHints): Promise<EventItem[]>;
+  /** Any music events in the window (fallback when artist queries find nothing) */
+  findGeneric(w: GenericSearch): Promise<EventItem[]>;
+  /** Provider-specific artist ids for a name, if the provider has them */
+  resolveArtistId?(artistName: string): Promise<string[]>;
+  /** Health/usage info surfaced in API responses (e.g. remaining quota) */
+  status?(): Record<string, unknown>;
+}
+
+/** What we know about an artist beyond its name */
+export type ArtistHints = {
+  /** other names it's billed under (see aliases.ts) */
+  aliases?: string[];
+  /** lets providers use a stored id mapping instead of a name search (see artistmap.ts) */
+  spotifyId?: string;
+  /** the searching user's own attraction ids for this artist, used as-is (ArtistOverride) */
+  tmIds?: string[];
+};
+
+export type ProviderFailure = { provider: string; error: string };
+
+/* =========================
+   Registry (EVENT_PROVIDERS=tm,local)
+   ========================= */
+
+const registry: Record<string, () => EventProvider> = {
+  tm: () => ticketmasterProvider,
+  local: () => localFeedProvider(process.env.LOCAL_EVENTS_FILE || "events.local.json"),
+};
+
+let active: EventProvider[] | null = null;
+
+export function getProviders(): EventProvider[] {
+  if (active) return active;
+  const ids = (process.env.EVENT_PROVIDERS || "tm")
+    .split(",").map(s => s.trim()).filter(Boolean);
+  active = ids.map((id) => {
+    const make = registry[id];
+    if (!make) throw new Error(`Unknown event provider "${id}" (known: ${Object.keys(registry).join(", ")})`);
+    return make();
+  });
+  return active;
+}
+
+/** Run `call` on every provider and merge; one failing provider doesn't sink the rest */
+async function fanOut(
+  call: (p: EventProvider) => Promise<EventItem[]>,
+  onError?: (f: ProviderFailure) => void
+) {
+  const results = await Promise.all(
+    getProviders().map((p) =>
+      call(p).catch((e) => {
+        console.error(`[${p.id}]`, e);
+        onError?.({ provider: p.id, error: e?.message || String(e) });
+        return [] as EventItem[];
+      })
+    )
+  );
+  return results.flat();
+}
+
+export function findEventsByArtist(
+  artistName: string,
+  w: SearchWindow,
+  onError?: (f: ProviderFailure) => void,
+  hints: ArtistHints = {}
+) {
+  return fanOut((p) => p.findByArtist(artistName, w, hints), onError);
+}
+
+export function findEventsGeneric(w: GenericSearch, onError?: (f: ProviderFailure) => void) {
+  return fanOut((p) => p.findGeneric(w), onError);
+}
+
+/** provider id → status(), for providers that report one */
+export function providerStatus() {
+  return Object.fromEntries(
+    getProviders().filter((p) => p.status).map((p) => [p.id, p.status!()])
+  );
+}
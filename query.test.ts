@@ -0,0 +1,144 @@
+// src/query.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  API_SCHEMAS,
+  isApiError,
+  paginate,
+  parseEventView,
+  parsePlaylistEvents,
+  parseQuery,
+  SAVED_SEARCH_PARAMS,
+  SEARCH_SCHEMA,
+  viewEvents,
+  type EventView,
+} from "./query";
+import { findTicketmasterEventsGeneric } from "./ticketmaster";
+import { rank } from "./rank";
+
+// fixtures/app.ticketmaster.com — every show on the same night around Austin, ranked as /api/events would
+const austin = { lat: 30.2672, lon: -97.7431 };
+const ranked = async () =>
+  rank(await findTicketmasterEventsGeneric({
+    ...austin,
+    radiusMiles: 100,
+    startDateTimeISO: "2031-01-01T00:00:00.000Z",
+    endDateTimeISO: "2031-06-30T23:59:59.000Z",
+    size: 200,
+  }), {
+    userLat: austin.lat,
+    userLon: austin.lon,
+    likedArtistNames: new Set(["khruangbin"]),
+    topArtistNames: new Set(["phoebe bridgers"]),
+    followedArtistNames: new Set(["arcade fire", "mitski"]),
+  });
+
+const view = (query: Record<string, unknown>) => {
+  const v = parseEventView(query);
+  assert.ok(!isApiError(v), JSON.stringify(v));
+  return v as EventView;
+};
+
+const ok = { artist_name: "Neon Harbor", start_utc: "2031-02-01T02:00:00Z", lineup: [{ name: "Neon Harbor", role: "headliner" }] };
+
+test("playlist events keep only the fields the playlist reads", () => {
+  const events = parsePlaylistEvents([{ ...ok, _score: 12, venue_name: "The Lantern" }]);
+  assert.ok(!isApiError(events));
+  assert.equal(events[0].artist_name, "Neon Harbor");
+  assert.deepEqual(events[0].lineup, [{ name: "Neon Harbor", role: "headliner" }]);
+  assert.ok(!("venue_name" in events[0]));
+});
+
+test("malformed playlist events are a 400, not a crash", () => {
+  for (const [raw, message] of [
+    [undefined, /events is required/],
+    [[], /events is required/],
+    [["x"], /must be an object/],
+    [[{ start_utc: ok.start_utc }], /artist_name is required/],
+    [[{ ...ok, start_utc: 5 }], /start_utc/],
+    [[{ ...ok, start_utc: "soon" }], /start_utc/],
+    [[{ ...ok, lineup: "Neon Harbor" }], /lineup must be an array/],
+    [[{ ...ok, lineup: [{ role: "support" }] }], /lineup\[0\] needs a name/],
+    [[{ ...ok, lineup: [null] }], /lineup\[0\] needs a name/],
+  ] as [unknown, RegExp][]) {
+    const out = parsePlaylistEvents(raw);
+    assert.ok(isApiError(out), JSON.stringify(raw));
+    assert.equal(out.param, "events");
+    assert.match(out.error, message);
+  }
+});
+
+test("search params are typed, defaulted and range-checked", () => {
+  const q = parseQuery(SEARCH_SCHEMA, { lat: "30.27", lon: "-97.74", days: "30", ignore: "A, B,,C", hide_cancelled: "yes" });
+  assert.ok(!isApiError(q));
+  assert.equal(q.lat, 30.27);
+  assert.equal(q.radius, 120);
+  assert.equal(q.breadth, "wide");
+  assert.deepEqual(q.ignore, ["A", "B", "C"]);
+  assert.equal(q.hide_cancelled, true);
+
+  for (const [query, param, message] of [
+    [{ lat: "north" }, "lat", /must be a number/],
+    [{ radius: "500" }, "radius", /at most 200/],
+    [{ days: "1.5" }, "days", /whole number/],
+    [{ breadth: "huge" }, "breadth", /one of: tight, balanced, wide/],
+    [{ hide_cancelled: "maybe" }, "hide_cancelled", /true or false/],
+    [{ radius: ["10", "20"] }, "radius", /more than once/],
+  ] as [Record<string, unknown>, string, RegExp][]) {
+    const err = parseQuery(SEARCH_SCHEMA, query);
+    assert.ok(isApiError(err), JSON.stringify(query));
+    assert.equal(err.code, "invalid_param");
+    assert.equal(err.param, param);
+    assert.match(err.error, message);
+  }
+});
+
+test("the documented saved-search body covers the search params, a name and the alert targets", () => {
+  const documented = Object.keys(API_SCHEMAS["POST /api/searches"]);
+  for (const k of [...SAVED_SEARCH_PARAMS, "name", "email", "webhook_url"]) assert.ok(documented.includes(k), k);
+  assert.equal(API_SCHEMAS["POST /api/searches"].radius.max, 200);
+});
+
+test("view params: dates, sort direction, tiers and cursor checks", () => {
+  const v = view({ from: "2031-03-01", to: "2031-03-01", sort: "-price", tier: "liked,top" });
+  assert.equal(v.from, Date.parse("2031-03-01T00:00:00Z"));
+  assert.equal(v.to, Date.parse("2031-03-01T23:59:59.999Z"));
+  assert.deepEqual(v.sort, { key: "price", desc: true });
+  assert.deepEqual(v.tier, ["liked", "top"]);
+
+  const backwards = parseEventView({ from: "2031-03-02", to: "2031-03-01" });
+  assert.ok(isApiError(backwards) && backwards.param === "to");
+  const cursor = parseEventView({ cursor: "not-ours" });
+  assert.ok(isApiError(cursor) && cursor.code === "invalid_cursor");
+  const tier = parseEventView({ tier: "favourite" });
+  assert.ok(isApiError(tier) && /unknown value "favourite"/.test(tier.error));
+});
+
+test("viewEvents filters and sorts ranked fixture events", async () => {
+  const events = await ranked();
+  assert.deepEqual(viewEvents(events, view({ tier: "liked" })).map((e) => e.artist_name), ["Khruangbin", "Khruangbin"]);
+  const near = viewEvents(events, view({ max_distance: "20" }));
+  assert.ok(near.length > 0 && near.length < events.length);
+  assert.ok(near.every((e) => e.distance_miles! <= 20));
+  assert.deepEqual(viewEvents(events, view({ city: "san antonio" })).map((e) => e.source_id), ["G5vYZ1rk03"]);
+
+  const byDistance = viewEvents(events, view({ sort: "-distance" }));
+  assert.equal(byDistance[0].city, "San Antonio");
+  const rankOrder = viewEvents(events, view({}));
+  assert.deepEqual(rankOrder.map((e) => e.source_id), events.map((e) => e.source_id));
+});
+
+test("pages chain through next_cursor and trim to the requested fields", async () => {
+  const events = await ranked();
+  const seen: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const v = view({ pageSize: "2", fields: "source_id,event_name", ...(cursor && { cursor }) });
+    const page = paginate(events, v.window);
+    assert.ok(page.items.every((e) => Object.keys(e).join() === "source_id,event_name"));
+    seen.push(...page.items.map((e) => e.source_id!));
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
+  assert.deepEqual(seen, events.map((e) => e.source_id));
+});
@@ -0,0 +1,432 @@
+// src/query.ts
+import type { ArtistTier, EventItem } from "./providers";
+import type { AlertDelivery } from "./alerts";
+import { GROUP_MODES, RANK_PROFILES } from "./rank";
+
+/* =========================
+   Errors
+   ========================= */
+
+// Every 400 body: { error, code, param? } — `error` stays a readable message
+export type ApiErrorCode = "missing_param" | "invalid_param" | "invalid_cursor";
+
+export type ApiError = { error: string; code: ApiErrorCode; param?: string };
+
+export function apiError(code: ApiErrorCode, error: string, param?: string): ApiError {
+  return { error, code, ...(param && { param }) };
+}
+
+export function isApiError(v: unknown): v is ApiError {
+  return typeof v === "object" && v !== null && "error" in v && "code" in v;
+}
+
+/* =========================
+   Schemas
+   ========================= */
+
+// A schema maps param name → spec. Specs are plain JSON, so GET /api/schema serves them as the docs.
+//   number / int — optional min/max
+//   bool         — 1/0, true/false, yes/no, on/off
+//   enum         — one of `values`
+//   list         — comma-separated (or repeated) values, optionally restricted to `values`
+//   date         — YYYY-MM-DD (whole day, UTC) or an ISO date-time
+//   sort         — one of `keys`, "-" prefix for descending (sort=-date)
+// `required` params must be present; params a schema doesn't name are ignored.
+
+export type ParamSpec = { doc: string; required?: true } & (
+  | { type: "number" | "int"; min?: number; max?: number; default?: number }
+  | { type: "string"; maxLength?: number; default?: string }
+  | { type: "bool"; default?: boolean }
+  | { type: "enum"; values: readonly string[]; default?: string }
+  | { type: "list"; values?: readonly string[]; max?: number }
+  | { type: "date"; endOfDay?: boolean }
+  | { type: "sort"; keys: readonly string[] }
+);
+
+export type Schema = Record<string, ParamSpec>;
+
+type Value<P> =
+  P extends { type: "number" | "int" } ? number :
+  P extends { type: "bool" } ? boolean :
+  P extends { type: "enum"; values: readonly (infer V)[] } ? V :
+  P extends { type: "list"; values: readonly (infer V)[] } ? V[] :
+  P extends { type: "list" } ? string[] :
+  P extends { type: "date" } ? number : // epoch ms
+  P extends { type: "sort"; keys: readonly (infer K)[] } ? { key: K; desc: boolean } :
+  string;
+
+export type Parsed<S extends Schema> = {
+  [K in keyof S]: S[K] extends { default: unknown } | { required: true } ? Value<S[K]> : Value<S[K]> | undefined;
+};
+
+const TRUE = ["1", "true", "yes", "on"];
+const FALSE = ["0", "false", "no", "off"];
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseValue(name: string, spec: ParamSpec, raw: unknown): unknown {
+  const invalid = (msg: string) => apiError("invalid_param", `${name} ${msg}`, name);
+
+  if (spec.type === "list") {
+    const items = (Array.isArray(raw) ? raw : [raw])
+      .flatMap((v) => String(v).split(","))
+      .map((s) => s.trim())
+      .filter(Boolean);
+    if (spec.max !== undefined && items.length > spec.max) return invalid(`takes at most ${spec.max} values`);
+    const bad = spec.values && items.find((v) => !spec.values!.includes(v));
+    if (bad) return invalid(`has unknown value "${bad}" (known: ${spec.values!.join(", ")})`);
+    return items;
+  }
+  if (Array.isArray(raw)) return invalid("given more than once");
+
+  const s = String(raw).trim();
+  switch (spec.type) {
+    case "number":
+    case "int": {
+      const n = typeof raw === "number" ? raw : Number(s);
+      if (!Number.isFinite(n)) return invalid("must be a number");
+      if (spec.type === "int" && !Number.isInteger(n)) return invalid("must be a whole number");
+      if (spec.min !== undefined && n < spec.min) return invalid(`must be at least ${spec.min}`);
+      if (spec.max !== undefined && n > spec.max) return invalid(`must be at most ${spec.max}`);
+      return n;
+    }
+    case "string":
+      if (spec.maxLength !== undefined && s.length > spec.maxLength) return invalid(`is longer than ${spec.maxLength} characters`);
+      return s;
+    case "bool":
+      if (typeof raw === "boolean") return raw;
+      if (TRUE.includes(s.toLowerCase())) return true;
+      if (FALSE.includes(s.toLowerCase())) return false;
+      return invalid("must be true or false");
+    case "enum":
+      if (!spec.values.includes(s)) return invalid(`must be one of: ${spec.values.join(", ")}`);
+      return s;
+    case "date": {
+      const t = DATE_ONLY.test(s)
+        ? Date.parse(`${s}T${spec.endOfDay ? "23:59:59.999" : "00:00:00"}Z`)
+        : s.includes("T") ? Date.parse(s) : NaN;
+      if (Number.isNaN(t)) return invalid("must be YYYY-MM-DD or an ISO date-time");
+      return t;
+    }
+    case "sort": {
+      const desc = s.startsWith("-");
+      const key = desc ? s.slice(1) : s;
+      if (!spec.keys.includes(key)) return invalid(`must be one of: ${spec.keys.join(", ")} (prefix "-" to reverse)`);
+      return { key, desc };
+    }
+  }
+}
+
+/** Validate `query` (req.query or a JSON body) against `schema`; defaults filled in */
+export function parseQuery<S extends Schema>(schema: S, query: Record<string, unknown> = {}): Parsed<S> | ApiError {
+  const out: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(schema)) {
+    const raw = query[name];
+    if (raw === undefined || raw === null || (typeof raw === "string" && !raw.trim())) {
+      if (spec.required) return apiError("missing_param", `${name} is required`, name);
+      if ("default" in spec) out[name] = spec.default;
+      continue;
+    }
+    const v = parseValue(name, spec, raw);
+    if (isApiError(v)) return v;
+    out[name] = v;
+  }
+  return out as Parsed<S>;
+}
+
+/* =========================
+   Paging + field selection
+   ========================= */
+
+function pageSchema(defaultSize: number, maxSize: number) {
+  return {
+    page: { type: "int", min: 1, default: 1, doc: "1-based page number" },
+    pageSize: { type: "int", min: 1, max: maxSize, default: defaultSize, doc: `items per page (max ${maxSize})` },
+    cursor: { type: "string", maxLength: 200, doc: "next_cursor from the previous response; takes precedence over page" },
+    fields: { type: "list", max: 50, doc: "only these keys on each item, e.g. fields=event_name,start_utc,url" },
+  } as const satisfies Schema;
+}
+
+export type PageWindow = { offset: number; pageSize: number; fields?: string[] };
+
+export type Page<T> = {
+  items: T[];
+  count: number;              // total matches across all pages
+  page: number;
+  pageSize: number;
+  next_cursor: string | null; // null on the last page
+};
+
+// Cursors are opaque to clients; today they only carry the offset
+const encodeCursor = (offset: number) => Buffer.from(JSON.stringify({ o: offset })).toString("base64url");
+
+function decodeCursor(cursor: string) {
+  try {
+    const { o } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return Number.isInteger(o) && o >= 0 ? (o as number) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Parsed page params → window; cursor problems are caught before any search runs */
+export function pageWindow(p: { page: number; pageSize: number; cursor?: string; fields?: string[] }): PageWindow | ApiError {
+  let offset = (p.page - 1) * p.pageSize;
+  if (p.cursor) {
+    const o = decodeCursor(p.cursor);
+    if (o === undefined) return apiError("invalid_cursor", "cursor is not one this API issued", "cursor");
+    offset = o;
+  }
+  return { offset, pageSize: p.pageSize, ...(p.fields?.length && { fields: p.fields }) };
+}
+
+export function paginate<T extends object>(items: T[], w: PageWindow): Page<Partial<T>> {
+  const slice = items.slice(w.offset, w.offset + w.pageSize);
+  const end = w.offset + slice.length;
+  return {
+    items: w.fields ? slice.map((it) => pickFields(it, w.fields!)) : slice,
+    count: items.length,
+    page: Math.floor(w.offset / w.pageSize) + 1,
+    pageSize: w.pageSize,
+    next_cursor: end < items.length ? encodeCursor(end) : null,
+  };
+}
+
+function pickFields<T extends object>(item: T, fields: string[]): Partial<T> {
+  const out: Partial<T> = {};
+  for (const f of fields) if (f in item) (out as any)[f] = (item as any)[f];
+  return out;
+}
+
+/* =========================
+   /api/events (+ stream, .ics, presales)
+   ========================= */
+
+/** What to search: the same params saved by calendar feeds and saved searches */
+export const SEARCH_SCHEMA = {
+  lat: { type: "number", min: -90, max: 90, doc: "latitude (with lon), unless place or legs is given" },
+  lon: { type: "number", min: -180, max: 180, doc: "longitude (with lat)" },
+  place: { type: "string", maxLength: 200, doc: `"City, State", a postal code or a saved location name` },
+  legs: { type: "string", maxLength: 2000, doc: "itinerary: [name@]place[~radius][/from..to] separated by ;" },
+  radius: { type: "number", min: 1, max: 200, default: 120, doc: "miles (Ticketmaster searches at most 200)" },
+  days: { type: "int", min: 1, max: 730, default: 180, doc: "how far ahead to search" },
+  breadth: { type: "enum", values: ["tight", "balanced", "wide"], default: "wide", doc: "how many of your artists to query" },
+  cap: { type: "int", min: 1, max: 1500, doc: "exact number of artists to query (overrides breadth)" },
+  mode: { type: "enum", values: ["artists", "discover"], default: "artists", doc: "your artists, or unfamiliar artists in your genres" },
+  ignore: { type: "list", doc: "artist names to skip (default: saved preference)" },
+  profile: { type: "enum", values: Object.keys(RANK_PROFILES), doc: "ranking profile (default: saved setting)" },
+  weights: { type: "string", maxLength: 500, doc: "ranking overrides, e.g. liked:200,distanceWeight:3" },
+  max_price: { type: "number", min: 0, doc: "drop events whose cheapest ticket costs more (unpriced events are kept)" },
+  hide_cancelled: { type: "bool", default: false, doc: "drop cancelled events" },
+} as const satisfies Schema;
+
+export const EVENT_TIERS = ["liked", "top", "followed", "other", "discovery"] as const satisfies readonly ArtistTier[];
+
+/** How to present the results: filters, order, paging */
+export const EVENTS_VIEW_SCHEMA = {
+  ...pageSchema(220, 500),
+  sort: {
+    type: "sort",
+    keys: ["rank", "date", "distance", "price", "onsale", "name"],
+    doc: "rank (default: the endpoint's own order), date, distance, price (cheapest ticket), onsale (public on-sale), name",
+  },
+  tier: { type: "list", values: EVENT_TIERS, doc: "only events whose best act is in these tiers" },
+  venue: { type: "string", maxLength: 200, doc: "venue name contains (case-insensitive)" },
+  city: { type: "string", maxLength: 200, doc: "city contains (case-insensitive)" },
+  state: { type: "string", maxLength: 100, doc: "state / province, exact (case-insensitive)" },
+  country: { type: "string", maxLength: 100, doc: "country, exact (case-insensitive)" },
+  from: { type: "date", doc: "starts on or after" },
+  to: { type: "date", endOfDay: true, doc: "starts on or before" },
+  max_distance: { type: "number", min: 0, doc: "miles from the search origin (or the event's leg)" },
+} as const satisfies Schema;
+
+export const PRESALES_SCHEMA = {
+  within: { type: "int", min: 1, max: 90, default: 7, doc: "days ahead to look for sale openings" },
+} as const satisfies Schema;
+
+export const GROUP_SEARCH_SCHEMA = {
+  match: {
+    type: "enum",
+    values: GROUP_MODES,
+    default: "total",
+    doc: "total (most combined interest), majority (at least half the members), everyone (every member has an act on the bill)",
+  },
+} as const satisfies Schema;
+
+export const GROUP_SCHEMA = {
+  name: { type: "string", maxLength: 100, required: true, doc: "shown to members" },
+} as const satisfies Schema;
+
+export type EventView = Omit<Parsed<typeof EVENTS_VIEW_SCHEMA>, keyof ReturnType<typeof pageSchema>> & {
+  window: PageWindow;
+};
+
+export function parseEventView(query: Record<string, unknown>): EventView | ApiError {
+  const v = parseQuery(EVENTS_VIEW_SCHEMA, query);
+  if (isApiError(v)) return v;
+  const { page, pageSize, cursor, fields, ...rest } = v;
+  const window = pageWindow({ page, pageSize, cursor, fields });
+  if (isApiError(window)) return window;
+  if (rest.from !== undefined && rest.to !== undefined && rest.to < rest.from) {
+    return apiError("invalid_param", "to is before from", "to");
+  }
+  return { ...rest, window };
+}
+
+const lc = (s?: string) => (s || "").toLowerCase();
+const time = (iso?: string) => (iso ? Date.parse(iso) : NaN);
+
+const SORT_VALUE: Record<string, (e: EventItem) => number | string | undefined> = {
+  date: (e) => time(e.start_utc),
+  distance: (e) => e.distance_miles,
+  price: (e) => e.min_price,
+  onsale: (e) => time(e.onsale_at),
+  name: (e) => lc(e.event_name),
+};
+
+/** Filter + order per the view; paging is left to paginate() */
+export function viewEvents<T extends EventItem>(events: T[], v: EventView): T[] {
+  const out = events.filter((e) => {
+    if (v.tier && !v.tier.includes(e.tier ?? "other")) return false;
+    if (v.venue && !lc(e.venue_name).includes(lc(v.venue))) return false;
+    if (v.city && !lc(e.city).includes(lc(v.city))) return false;
+    if (v.state && lc(e.state) !== lc(v.state)) return false;
+    if (v.country && lc(e.country) !== lc(v.country)) return false;
+    if (v.from !== undefined || v.to !== undefined) {
+      const t = time(e.start_utc);
+      if (Number.isNaN(t)) return false; // TBA can't be in a date range
+      if (v.from !== undefined && t < v.from) return false;
+      if (v.to !== undefined && t > v.to) return false;
+    }
+    if (v.max_distance !== undefined && !(e.distance_miles! <= v.max_distance)) return false;
+    return true;
+  });
+
+  if (!v.sort || v.sort.key === "rank") return v.sort?.desc ? out.reverse() : out;
+
+  // events without the value go last either way; ties keep their rank order
+  const get = SORT_VALUE[v.sort.key];
+  const dir = v.sort.desc ? -1 : 1;
+  const missing = (x: number | string | undefined) => x === undefined || (typeof x === "number" && Number.isNaN(x));
+  return [...out].sort((a, b) => {
+    const x = get(a), y = get(b);
+    if (missing(x) || missing(y)) return missing(x) === missing(y) ? 0 : missing(x) ? 1 : -1;
+    if (x === y) return 0;
+    return (x! < y! ? -1 : 1) * dir;
+  });
+}
+
+/* =========================
+   /api/me/artists
+   ========================= */
+
+export const ARTISTS_SCHEMA = {
+  ...pageSchema(500, 2000),
+  sort: { type: "sort", keys: ["default", "name", "liked_count"], doc: "default (top, followed, then liked-only), name, liked_count (-liked_count for most liked first)" },
+  source: { type: "list", values: ["top", "followed", "liked"], doc: "only artists from these sources" },
+  q: { type: "string", maxLength: 200, doc: "name contains (case-insensitive)" },
+  genre: { type: "string", maxLength: 100, doc: "has a genre containing this" },
+} as const satisfies Schema;
+
+/* =========================
+   Request bodies
+   ========================= */
+
+export const LOCATION_SCHEMA = {
+  name: { type: "string", maxLength: 200, required: true, doc: "label shown in the UI and usable as a place" },
+  lat: { type: "number", min: -90, max: 90, required: true, doc: "latitude" },
+  lon: { type: "number", min: -180, max: 180, required: true, doc: "longitude" },
+} as const satisfies Schema;
+
+// plus `events`: the EventItem list to build it from (see parsePlaylistEvents)
+export const PLAYLIST_SCHEMA = {
+  name: { type: "string", maxLength: 100, default: "Concerts Finder: upcoming shows", doc: "playlist name" },
+  tracks_per_artist: { type: "int", min: 1, max: 10, default: 3, doc: "top tracks taken from each performing artist" },
+  acts: { type: "enum", values: ["all", "headliners"], default: "all", doc: "all (support acts and festival bills too) or headliners" },
+  public: { type: "bool", default: false, doc: "public playlist (only when it's first created)" },
+} as const satisfies Schema;
+
+// where a saved search's alerts go (POST /api/searches, PUT /api/searches/:id/deliver)
+export const ALERT_DELIVERY_SCHEMA = {
+  email: { type: "string", maxLength: 254, doc: "send new shows here (smtp sink)" },
+  webhook_url: { type: "string", maxLength: 2000, doc: "POST new shows here, https only (webhook sink)" },
+} as const satisfies Schema;
+
+/** The search params a saved search keeps and re-runs with */
+export const SAVED_SEARCH_PARAMS = ["lat", "lon", "place", "radius", "days", "legs", "breadth", "ignore", "max_price", "hide_cancelled"] as const;
+
+// POST /api/searches: the saved params, a label and where alerts go
+export const SAVED_SEARCH_SCHEMA = {
+  name: { type: "string", maxLength: 200, doc: "label (default: the legs, place or coordinates)" },
+  ...(Object.fromEntries(SAVED_SEARCH_PARAMS.map((k) => [k, SEARCH_SCHEMA[k]])) as Pick<typeof SEARCH_SCHEMA, (typeof SAVED_SEARCH_PARAMS)[number]>),
+  ...ALERT_DELIVERY_SCHEMA,
+} as const satisfies Schema;
+
+export function parseAlertDelivery(body: Record<string, unknown> = {}): AlertDelivery | ApiError {
+  const d = parseQuery(ALERT_DELIVERY_SCHEMA, body);
+  if (isApiError(d)) return d;
+  if (d.email !== undefined && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(d.email)) {
+    return apiError("invalid_param", "email is not an email address", "email");
+  }
+  if (d.webhook_url !== undefined) {
+    let url: URL | undefined;
+    try { url = new URL(d.webhook_url); } catch {}
+    if (url?.protocol !== "https:") return apiError("invalid_param", "webhook_url must be an https URL", "webhook_url");
+  }
+  return { ...(d.email && { email: d.email }), ...(d.webhook_url && { webhook_url: d.webhook_url }) };
+}
+
+export const MAX_PLAYLIST_EVENTS = 300;
+
+const optionalString = (v: unknown) => v === undefined || v === null || typeof v === "string";
+
+/**
+ * The `events` of a playlist body: the client sends back EventItems it was given, so check
+ * the fields the playlist reads and keep only those.
+ */
+export function parsePlaylistEvents(raw: unknown): EventItem[] | ApiError {
+  if (!Array.isArray(raw) || !raw.length) return apiError("missing_param", "events is required", "events");
+  if (raw.length > MAX_PLAYLIST_EVENTS) return apiError("invalid_param", `at most ${MAX_PLAYLIST_EVENTS} events`, "events");
+
+  const out: EventItem[] = [];
+  for (const [i, e] of raw.entries()) {
+    const at = `events[${i}]`;
+    if (typeof e !== "object" || e === null) return apiError("invalid_param", `${at} must be an object`, "events");
+    if (typeof e.artist_name !== "string" || !e.artist_name.trim()) return apiError("invalid_param", `${at}.artist_name is required`, "events");
+    if (!optionalString(e.start_utc) || (e.start_utc && Number.isNaN(Date.parse(e.start_utc)))) {
+      return apiError("invalid_param", `${at}.start_utc must be an ISO date-time`, "events");
+    }
+    if (e.lineup !== undefined && e.lineup !== null) {
+      if (!Array.isArray(e.lineup)) return apiError("invalid_param", `${at}.lineup must be an array`, "events");
+      const bad = e.lineup.findIndex((a: any) => typeof a?.name !== "string" || !optionalString(a.role) || !optionalString(a.id));
+      if (bad >= 0) return apiError("invalid_param", `${at}.lineup[${bad}] needs a name`, "events");
+    }
+    out.push({
+      source: String(e.source ?? ""),
+      source_id: String(e.source_id ?? ""),
+      event_name: String(e.event_name ?? e.artist_name),
+      artist_name: e.artist_name,
+      url: String(e.url ?? ""),
+      ...(e.start_utc && { start_utc: e.start_utc }),
+      ...(e.lineup && { lineup: e.lineup.map((a: any) => ({ name: a.name, role: a.role ?? "performer", ...(a.id && { id: a.id }) })) }),
+      ...(e.festival === true && { festival: true }),
+    });
+  }
+  return out;
+}
+
+/** Every documented schema, served by GET /api/schema */
+export const API_SCHEMAS = {
+  "GET /api/events": { ...SEARCH_SCHEMA, ...EVENTS_VIEW_SCHEMA },
+  "GET /api/events/stream": { ...SEARCH_SCHEMA, ...EVENTS_VIEW_SCHEMA },
+  "GET /api/events.ics": { ...SEARCH_SCHEMA, ...EVENTS_VIEW_SCHEMA },
+  "GET /api/presales": { ...SEARCH_SCHEMA, ...EVENTS_VIEW_SCHEMA, ...PRESALES_SCHEMA },
+  "POST /api/search-jobs": SEARCH_SCHEMA,
+  "GET /api/search-jobs/:id": EVENTS_VIEW_SCHEMA,
+  "GET /api/groups/:id/events": { ...SEARCH_SCHEMA, ...EVENTS_VIEW_SCHEMA, ...GROUP_SEARCH_SCHEMA },
+  "POST /api/groups": GROUP_SCHEMA,
+  "GET /api/me/artists": ARTISTS_SCHEMA,
+  "POST /api/me/locations": LOCATION_SCHEMA,
+  "POST /api/me/playlist": PLAYLIST_SCHEMA,
+  "POST /api/searches": SAVED_SEARCH_SCHEMA,
+  "PUT /api/searches/:id/deliver": ALERT_DELIVERY_SCHEMA,
+};
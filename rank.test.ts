@@ -0,0 +1,141 @@
+// src/rank.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findTicketmasterEventsGeneric } from "./ticketmaster";
+import { rank, rankGroup, RANK_PROFILES, type GroupMemberCtx, type RankCtx } from "./rank";
+import type { EventItem } from "./providers";
+
+// fixtures/app.ticketmaster.com — every show on the same night around Austin
+const austin = { lat: 30.2672, lon: -97.7431 };
+const events = () =>
+  findTicketmasterEventsGeneric({
+    ...austin,
+    radiusMiles: 100,
+    startDateTimeISO: "2031-01-01T00:00:00.000Z",
+    endDateTimeISO: "2031-06-30T23:59:59.000Z",
+    size: 200,
+  });
+
+const ctx = (over: Partial<RankCtx> = {}): RankCtx => ({
+  userLat: austin.lat,
+  userLon: austin.lon,
+  likedArtistNames: new Set(["khruangbin"]),
+  topArtistNames: new Set(["phoebe bridgers"]),
+  followedArtistNames: new Set(["arcade fire", "mitski"]),
+  ...over,
+});
+
+const ids = (xs: { source_id: string }[]) => xs.map((e) => e.source_id);
+
+test("liked beats top beats followed beats strangers", async () => {
+  const ranked = rank(await events(), ctx());
+  const order = ids(ranked);
+  const at = (id: string) => order.indexOf(id);
+  assert.ok(at("G5vYZ1rk02") < at("G5vYZ1rk01")); // Khruangbin (liked) over Phoebe Bridgers (top)
+  assert.ok(at("G5vYZ1rk01") < at("G5vYZ1rk05")); // top over Arcade Fire (followed)
+  assert.equal(order[order.length - 1], "G5vYZ1rk06"); // Unknown Band last
+});
+
+test("same artist, same night: the closer show ranks first", async () => {
+  const order = ids(rank(await events(), ctx()));
+  assert.ok(order.indexOf("G5vYZ1rk02") < order.indexOf("G5vYZ1rk03")); // Austin over San Antonio
+});
+
+test("a followed artist in support is credited and scored", async () => {
+  const ranked = rank(await events(), ctx());
+  const openers = ranked.find((e) => e.source_id === "G5vYZ1rk04")!;
+  assert.equal(openers.your_acts, 1);
+  assert.equal(openers.tier, "followed");
+  assert.ok((openers._scoreBreakdown.lineup ?? 0) > 0);
+  assert.ok(ids(ranked).indexOf("G5vYZ1rk04") < ids(ranked).indexOf("G5vYZ1rk06"));
+});
+
+test("closest-first puts distance ahead of listening tiers", async () => {
+  const ranked = rank(await events(), ctx({ profile: "closest-first" }));
+  const far = ranked.findIndex((e) => e.source_id === "G5vYZ1rk03");
+  assert.equal(far, ranked.length - 1); // the only show outside Austin
+});
+
+test("ranked events report their distance from the search origin", async () => {
+  const ranked = rank(await events(), ctx());
+  const sa = ranked.find((e) => e.source_id === "G5vYZ1rk03")!;
+  assert.ok(sa.distance_miles! > 70 && sa.distance_miles! < 80);
+});
+
+/* ---------------- Groups ---------------- */
+
+const members: GroupMemberCtx[] = [
+  { id: "ana", name: "Ana", likedArtistNames: new Set(["khruangbin"]), topArtistNames: new Set(["phoebe bridgers"]), followedArtistNames: new Set() },
+  { id: "ben", name: "Ben", likedArtistNames: new Set(["arcade fire"]), topArtistNames: new Set(), followedArtistNames: new Set(["khruangbin"]) },
+];
+
+test("group ranking rewards shows several members would enjoy and names them", async () => {
+  const ranked = rankGroup(await events(), members, { userLat: austin.lat, userLon: austin.lon, mode: "total" });
+  assert.equal(ranked[0].source_id, "G5vYZ1rk02"); // Khruangbin in Austin: liked by one, followed by the other
+  assert.deepEqual(ranked[0].group?.members.map((m) => [m.name, m.tier, m.acts]), [
+    ["Ana", "liked", ["Khruangbin"]],
+    ["Ben", "followed", ["Khruangbin"]],
+  ]);
+  assert.ok(!ids(ranked).includes("G5vYZ1rk06")); // nobody's artist
+});
+
+test("'everyone' keeps only shows with an act for every member", async () => {
+  const ranked = rankGroup(await events(), members, { userLat: austin.lat, userLon: austin.lon, mode: "everyone" });
+  assert.deepEqual(ids(ranked).sort(), ["G5vYZ1rk02", "G5vYZ1rk03"]);
+  assert.ok(ranked.every((e) => e.group?.matched === 2 && e.group.of === 2));
+});
+
+test("a festival of loosely related acts doesn't bury a liked artist's own show", () => {
+  const show = (id: string, artist: string, lineup: string[] = []): EventItem => ({
+    source: "tm",
+    source_id: id,
+    event_name: id,
+    artist_name: artist,
+    start_utc: "2031-03-01T02:00:00Z",
+    url: "https://example.com",
+    ...austin,
+    ...(lineup.length && { lineup: lineup.map((name) => ({ name, role: "performer" as const })) }),
+    ...(lineup.length && { festival: true }),
+  });
+  const followed = Array.from({ length: 12 }, (_, i) => `act ${i}`);
+  const ranked = rank([
+    show("fest", "Fest Headliner", ["Fest Headliner", ...followed]),
+    show("small-fest", "Fest Headliner", ["Fest Headliner", ...followed.slice(0, 2)]),
+    show("headline", "Khruangbin"),
+  ], ctx({ followedArtistNames: new Set(followed) }));
+
+  assert.deepEqual(ids(ranked), ["headline", "fest", "small-fest"]);
+  const fest = ranked.find((e) => e.source_id === "fest")!;
+  assert.equal(fest.your_acts, 12);
+  assert.ok(fest._scoreBreakdown.lineup! < 1.5 * RANK_PROFILES["artist-heavy"].followed);
+});
+
+test("a festival of liked acts earns no more than the strongest liked artist's own show", () => {
+  const at = (id: string, artist: string, lineup: string[] = []): EventItem => ({
+    source: "tm",
+    source_id: id,
+    event_name: id,
+    artist_name: artist,
+    start_utc: "2031-03-01T02:00:00Z",
+    url: "https://example.com",
+    ...austin,
+    ...(lineup.length && { lineup: lineup.map((name) => ({ name, role: "performer" as const })), festival: true }),
+  });
+  const liked = ["khruangbin", "acts a", "acts b", "acts c", "acts d"];
+  // Khruangbin is the favourite; the festival's acts are liked, but less
+  const affinity = new Map(liked.map((n, i) => [n, { likedCount: i ? 2 : 64, lastSavedAt: new Date().toISOString() }]));
+  const ranked = rank([
+    at("fest", "Acts A", ["Acts A", "Acts B", "Acts C", "Acts D"]),
+    at("headline", "Khruangbin"),
+    at("acts-b", "Acts B"),
+  ], ctx({ likedArtistNames: new Set(liked), affinity }));
+
+  const score = (id: string) => ranked.find((e) => e.source_id === id)!;
+  const interest = (id: string) => score(id)._scoreBreakdown.artist + (score(id)._scoreBreakdown.lineup ?? 0);
+  assert.equal(score("fest").your_acts, 4);
+  assert.ok(interest("fest") <= interest("headline") + 1e-9, `${interest("fest")} > ${interest("headline")}`);
+  assert.ok(score("fest")._score <= score("headline")._score + 1e-9);
+  // the lineup still counts: more than one of those acts on its own
+  assert.ok(interest("fest") > interest("acts-b"));
+});
@@ -1,20 +1,109 @@
 // src/rank.ts
-import type { EventItem } from "./ticketmaster";
+import type { ArtistTier, EventItem, MemberMatch } from "./providers";
+import { genreOverlap, type GenreProfile } from "./genres";
 
 export type RankCtx = {
   userLat?: number;
   userLon?: number;
+  /** itinerary searches: distance is measured from the event's leg (e.leg) instead of userLat/userLon */
+  legOrigins?: Map<string, { lat: number; lon: number }>;
   likedArtistNames: Set<string>;       // Liked Songs (Saved Tracks) — strongest
   topArtistNames: Set<string>;
   followedArtistNames: Set<string>;
   preferredArtistNames?: Set<string>;  // everything we actually queried
-  profile?: "artist-heavy" | "balanced";
+  profile?: RankProfile;
+  /** per-request overrides on top of the profile */
+  weights?: Partial<RankWeights>;
+  /** listening signals by lower-cased artist name; artists without one fall back to the flat tiers */
+  affinity?: Map<string, ArtistAffinity>;
+  /** discovery mode: score unfamiliar artists by genre overlap */
+  genreProfile?: GenreProfile;
 };
 
+export type ArtistAffinity = {
+  likedCount?: number;
+  lastSavedAt?: string;
+  topRanks?: { range: "long_term" | "medium_term" | "short_term"; position: number }[];
+  followed?: boolean;
+};
+
+/* ---------------- Profiles ---------------- */
+
+/** [upper bound, points] — the first bucket the value fits in wins */
+type Buckets = [number, number][];
+
+export type RankWeights = {
+  liked: number;
+  top: number;
+  followed: number;
+  preferred: number;   // anything else we queried
+  other: number;
+  distance: Buckets;   // miles → points
+  date: Buckets;       // days until → points
+  genre: number;       // points for a full genre match (discovery picks only)
+  distanceWeight: number; // multipliers on the bucket points
+  dateWeight: number;
+};
+
+export const RANK_PROFILES = {
+  // Strongest emphasis on Liked Songs (Saved Tracks) artists; location/date only break ties
+  "artist-heavy": {
+    liked: 140, top: 95, followed: 75, preferred: 40, other: 0,
+    distance: [[15, 6], [50, 5], [120, 4], [200, 3], [400, 1]],
+    date: [[14, 2], [45, 1], [180, 1]],
+    genre: 60,
+    distanceWeight: 1, dateWeight: 1,
+  },
+  balanced: {
+    liked: 60, top: 45, followed: 35, preferred: 20, other: 0,
+    distance: [[15, 30], [50, 25], [120, 18], [200, 10], [400, 4]],
+    date: [[14, 10], [45, 6], [180, 3]],
+    genre: 40,
+    distanceWeight: 1, dateWeight: 1,
+  },
+  "closest-first": {
+    liked: 10, top: 8, followed: 6, preferred: 3, other: 0,
+    distance: [[5, 120], [15, 100], [30, 85], [50, 70], [120, 45], [200, 25], [400, 10]],
+    date: [[14, 2], [45, 1], [180, 1]],
+    genre: 8,
+    distanceWeight: 1, dateWeight: 1,
+  },
+  "soonest-first": {
+    liked: 10, top: 8, followed: 6, preferred: 3, other: 0,
+    distance: [[15, 2], [50, 1], [120, 1]],
+    date: [[3, 120], [7, 100], [14, 85], [30, 65], [60, 45], [120, 25], [180, 10]],
+    genre: 8,
+    distanceWeight: 1, dateWeight: 1,
+  },
+} satisfies Record<string, RankWeights>;
+
+export type RankProfile = keyof typeof RANK_PROFILES;
+
+export function isRankProfile(s: string): s is RankProfile {
+  return Object.prototype.hasOwnProperty.call(RANK_PROFILES, s);
+}
+
+const NUMERIC_WEIGHTS = ["liked", "top", "followed", "preferred", "other", "genre", "distanceWeight", "dateWeight"] as const;
+
+/** "liked:200,distanceWeight:5" → { liked: 200, distanceWeight: 5 }; throws on unknown keys/bad numbers */
+export function parseRankWeights(spec: string): Partial<RankWeights> {
+  const out: Partial<Record<(typeof NUMERIC_WEIGHTS)[number], number>> = {};
+  for (const part of spec.split(",").map(s => s.trim()).filter(Boolean)) {
+    const [k, v] = part.split(":").map(s => s.trim());
+    const n = Number(v);
+    if (!(NUMERIC_WEIGHTS as readonly string[]).includes(k)) {
+      throw new Error(`Unknown weight "${k}" (known: ${NUMERIC_WEIGHTS.join(", ")})`);
+    }
+    if (v === undefined || v === "" || !Number.isFinite(n)) throw new Error(`Weight "${k}" must be a number`);
+    out[k as (typeof NUMERIC_WEIGHTS)[number]] = n;
+  }
+  return out;
+}
+
 const toLc = (s?: string) => (s || "").toLowerCase();
 
 /** Haversine distance (miles) */
-function distMiles(aLat?: number, aLon?: number, bLat?: number, bLon?: number) {
+export function distMiles(aLat?: number, aLon?: number, bLat?: number, bLon?: number) {
   if (
     aLat == null || aLon == null || bLat == null || bLon == null ||
     Number.isNaN(aLat) || Number.isNaN(aLon) || Number.isNaN(bLat) || Number.isNaN(bLon)
@@ -42,52 +131,75 @@ function daysUntil(iso?: string | null) {
   return Math.max(0, Math.round((t - now) / (1000 * 60 * 60 * 24)));
 }
 
-export function rank(events: EventItem[], ctx: RankCtx) {
-  // Strongest emphasis on Liked Songs (Saved Tracks) artists
-  const ART_LIKED   = 140;
-  const ART_TOP     = 95;
-  const ART_FOLLOW  = 75;
-  const ART_PREF    = 40;  // anything else we queried
-  const ART_OTHER   = 0;   // neutral
+function bucketScore(buckets: Buckets, v: number) {
+  if (!Number.isFinite(v)) return 0;
+  for (const [max, pts] of buckets) if (v <= max) return pts;
+  return 0;
+}
 
-  // Location = gentle nudge (SoCal-wide OK)
-  function locScore(e: EventItem) {
-    const d = distMiles(ctx.userLat, ctx.userLon, e.lat, e.lon);
-    if (!Number.isFinite(d)) return 0;
-    if (d <= 15) return 6;
-    if (d <= 50) return 5;
-    if (d <= 120) return 4;
-    if (d <= 200) return 3;
-    if (d <= 400) return 1;
-    return 0;
-    }
+/* ---------------- Listening affinity ---------------- */
 
-  // Date = tiny tie-breaker
-  function dateScore(e: EventItem) {
-    const d = daysUntil(e.start_utc);
-    if (d <= 14) return 2;
-    if (d <= 45) return 1;
-    if (d <= 180) return 1;
-    return 0;
-  }
+const LIKED_SATURATION = 64;   // liked-track count that earns the full count bonus
+const RECENCY_HALF_DAYS = 180; // a save this old counts half as "recent"
+const TOP_LIST_SIZE = 50;
+const RANGE_WEIGHT = { short_term: 1, medium_term: 0.9, long_term: 0.8 } as const;
 
-  const preferred = ctx.preferredArtistNames ?? new Set<string>();
+/**
+ * Continuous artist score from listening signals, scaled by the profile's tier weights:
+ * liked → up to `liked` by count + recency, top → up to `top` by list position + range,
+ * followed → `followed`. Strongest signal counts fully, the others add a quarter.
+ */
+function affinityScore(a: ArtistAffinity, w: RankWeights) {
+  const parts: number[] = [];
 
-  function artistScore(e: EventItem) {
-    const nameLc = toLc(e.artist_name) || toLc(e.event_name);
-    if (ctx.likedArtistNames.has(nameLc))   return ART_LIKED;
-    if (ctx.topArtistNames.has(nameLc))     return ART_TOP;
-    if (ctx.followedArtistNames.has(nameLc))return ART_FOLLOW;
-    if (preferred.has(nameLc))              return ART_PREF;
-    return ART_OTHER;
+  if (a.likedCount && a.likedCount > 0) {
+    const countF = Math.min(1, Math.log2(1 + a.likedCount) / Math.log2(1 + LIKED_SATURATION));
+    const age = a.lastSavedAt ? (Date.now() - Date.parse(a.lastSavedAt)) / (1000 * 60 * 60 * 24) : NaN;
+    const recencyF = Number.isNaN(age) ? 0 : Math.pow(0.5, Math.max(0, age) / RECENCY_HALF_DAYS);
+    parts.push(w.liked * (0.6 + 0.25 * countF + 0.15 * recencyF));
   }
 
-  const scored = events.map((e) => {
-    const score = artistScore(e) + locScore(e) + dateScore(e);
-    return { ...e, _score: score };
-  });
+  if (a.topRanks?.length) {
+    const best = Math.max(
+      ...a.topRanks.map(({ range, position }) =>
+        RANGE_WEIGHT[range] * (1 - 0.5 * (Math.min(position, TOP_LIST_SIZE) - 1) / (TOP_LIST_SIZE - 1))
+      )
+    );
+    parts.push(w.top * best);
+  }
+
+  if (a.followed) parts.push(w.followed);
+
+  if (!parts.length) return undefined;
+  const max = Math.max(...parts);
+  const rest = parts.reduce((x, y) => x + y, 0) - max;
+  return max + 0.25 * rest;
+}
 
-  scored.sort((a, b) => {
+/** `lineup`: the user's other artists on the same bill (supports, festival acts), see lineupScore */
+export type ScoreBreakdown = { artist: number; distance: number; date: number; genre?: number; lineup?: number };
+
+const LINEUP_DECAY = 1 / 3;
+
+/**
+ * Points for the user's other acts on a bill: the best counts in full, each next one a third of
+ * the one before, so the total stays under 1.5× the best act. A festival with twenty of your
+ * followed artists beats one with two. rank() also caps the whole bill (credited artist plus
+ * lineup) at the user's strongest single artist, so no lineup outscores that artist's own show.
+ */
+export function lineupScore(actPoints: number[]) {
+  return [...actPoints].sort((a, b) => b - a).reduce((sum, p, i) => sum + p * Math.pow(LINEUP_DECAY, i), 0);
+}
+
+/** Lower-cased names on the bill other than the credited artist */
+export function otherActs(e: EventItem) {
+  const credited = toLc(e.artist_name);
+  return [...new Set((e.lineup || []).map((a) => toLc(a.name)))].filter((n) => n && n !== credited);
+}
+
+/** Highest score first; ties → earlier, then closer, then by name */
+function byScore<T extends EventItem & { _score: number }>(distance: (e: T) => number) {
+  return (a: T, b: T) => {
     if (b._score !== a._score) return b._score - a._score;
 
     // earlier date tie-breaker
@@ -96,12 +208,180 @@ export function rank(events: EventItem[], ctx: RankCtx) {
     if (!Number.isNaN(ad) && !Number.isNaN(bd) && ad !== bd) return ad - bd;
 
     // then closer
-    const da = distMiles(ctx.userLat, ctx.userLon, a.lat, a.lon);
-    const db = distMiles(ctx.userLat, ctx.userLon, b.lat, b.lon);
+    const da = distance(a);
+    const db = distance(b);
     if (da !== db) return da - db;
 
     return (a.event_name || "").localeCompare(b.event_name || "");
+  };
+}
+
+export function rank<T extends EventItem>(events: T[], ctx: RankCtx) {
+  const w: RankWeights = { ...RANK_PROFILES[ctx.profile ?? "artist-heavy"], ...ctx.weights };
+
+  function distance(e: EventItem) {
+    const origin = (e.leg && ctx.legOrigins?.get(e.leg)) || { lat: ctx.userLat, lon: ctx.userLon };
+    return distMiles(origin.lat, origin.lon, e.lat, e.lon);
+  }
+
+  function locScore(e: EventItem) {
+    return bucketScore(w.distance, distance(e)) * w.distanceWeight;
+  }
+
+  function dateScore(e: EventItem) {
+    return bucketScore(w.date, daysUntil(e.start_utc)) * w.dateWeight;
+  }
+
+  const preferred = ctx.preferredArtistNames ?? new Set<string>();
+
+  /** points for one act; undefined when it isn't one of the user's artists */
+  function actScore(nameLc: string) {
+    const aff = ctx.affinity?.get(nameLc);
+    const cont = aff && affinityScore(aff, w);
+    if (cont !== undefined) return cont;
+    if (ctx.likedArtistNames.has(nameLc))   return w.liked;
+    if (ctx.topArtistNames.has(nameLc))     return w.top;
+    if (ctx.followedArtistNames.has(nameLc))return w.followed;
+    if (preferred.has(nameLc))              return w.preferred;
+    return undefined;
+  }
+
+  function tierOf(acts: Set<string>): ArtistTier {
+    if ([...acts].some((n) => ctx.likedArtistNames.has(n))) return "liked";
+    if ([...acts].some((n) => ctx.topArtistNames.has(n))) return "top";
+    if ([...acts].some((n) => ctx.followedArtistNames.has(n))) return "followed";
+    return "other";
+  }
+
+  function artistScore(e: EventItem) {
+    return actScore(toLc(e.artist_name) || toLc(e.event_name)) ?? w.other;
+  }
+
+  // the most any one of the user's artists earns; only needed once a bill has lineup points
+  let strongest: number | undefined;
+  function strongestAct() {
+    if (strongest === undefined) {
+      const names = new Set([
+        ...ctx.likedArtistNames, ...ctx.topArtistNames, ...ctx.followedArtistNames, ...preferred, ...(ctx.affinity?.keys() ?? []),
+      ]);
+      strongest = Math.max(0, ...[...names].map((n) => actScore(n) ?? 0));
+    }
+    return strongest;
+  }
+
+  const scored = events.map((e) => {
+    const _scoreBreakdown: ScoreBreakdown = {
+      // an uncertain performer match (see aliases.ts) earns proportionally less
+      artist: artistScore(e) * (e.match?.confidence ?? 1),
+      distance: locScore(e),
+      date: dateScore(e),
+    };
+    if (ctx.genreProfile && e.discovery) {
+      _scoreBreakdown.genre = w.genre * genreOverlap(e.genres, ctx.genreProfile);
+    }
+
+    // other acts on the bill the user listens to add points, with diminishing returns
+    const yours = new Set<string>();
+    if (actScore(toLc(e.artist_name)) !== undefined) yours.add(toLc(e.artist_name));
+    const actPoints: number[] = [];
+    for (const n of otherActs(e)) {
+      const s = actScore(n);
+      if (s === undefined) continue;
+      yours.add(n);
+      actPoints.push(s);
+    }
+    // the whole bill earns no more artist points than the user's strongest artist alone
+    const lineupPts = actPoints.length
+      ? Math.min(lineupScore(actPoints), Math.max(0, strongestAct() - _scoreBreakdown.artist))
+      : 0;
+    if (lineupPts) _scoreBreakdown.lineup = lineupPts;
+
+    const miles = distance(e);
+    const score = _scoreBreakdown.artist + _scoreBreakdown.distance + _scoreBreakdown.date
+      + (_scoreBreakdown.genre ?? 0) + (_scoreBreakdown.lineup ?? 0);
+    return {
+      ...e,
+      ...(e.lineup && {
+        lineup: e.lineup.map((a) => ({ ...a, yours: yours.has(toLc(a.name)) || undefined })),
+        your_acts: yours.size,
+      }),
+      tier: e.discovery ? "discovery" as const : tierOf(yours),
+      ...(Number.isFinite(miles) && { distance_miles: Math.round(miles * 10) / 10 }),
+      _score: score,
+      _scoreBreakdown,
+    };
   });
 
+  scored.sort(byScore(distance));
   return scored;
 }
+
+/* ---------------- Groups ---------------- */
+
+/** One group member's listening signals, as rank() takes them for a single user */
+export type GroupMemberCtx = Pick<RankCtx, "likedArtistNames" | "topArtistNames" | "followedArtistNames" | "affinity"> & {
+  id: string;
+  name: string;
+};
+
+/**
+ * total: most combined interest, anyone's artist counts;
+ * majority: at least half the members have an act on the bill, then by combined interest;
+ * everyone: every member has an act on the bill, ranked by the least interested member.
+ */
+export const GROUP_MODES = ["total", "majority", "everyone"] as const;
+export type GroupMode = (typeof GROUP_MODES)[number];
+
+const TIER_ORDER: ArtistTier[] = ["liked", "top", "followed", "other"];
+
+/**
+ * Score each event for every member (same profile, places and dates), then combine:
+ * distance/date points count once, artist points per the mode. Each event gets `group`
+ * with the members who'd enjoy it and which of their artists are playing.
+ */
+export function rankGroup<T extends EventItem>(
+  events: T[],
+  members: GroupMemberCtx[],
+  ctx: Omit<RankCtx, "likedArtistNames" | "topArtistNames" | "followedArtistNames" | "affinity" | "preferredArtistNames"> & { mode: GroupMode }
+) {
+  const indexed = events.map((e, i) => ({ ...e, _i: i }));
+  const perMember = members.map((m) => {
+    const byIndex = new Map(rank(indexed, { ...ctx, ...m }).map((r) => [r._i, r]));
+    return { m, byIndex };
+  });
+  const need = ctx.mode === "everyone" ? members.length : ctx.mode === "majority" ? Math.ceil(members.length / 2) : 1;
+
+  const scored = indexed.flatMap((e) => {
+    const rows = perMember.map(({ m, byIndex }) => ({ m, r: byIndex.get(e._i)! }));
+    const matches: MemberMatch[] = rows
+      .filter(({ r }) => r.tier !== "other")
+      .map(({ m, r }) => ({
+        id: m.id,
+        name: m.name,
+        tier: r.tier,
+        acts: r.lineup ? r.lineup.filter((a) => a.yours).map((a) => a.name) : [r.artist_name],
+        interest: r._scoreBreakdown.artist + (r._scoreBreakdown.lineup ?? 0),
+      }));
+    if (!matches.length || matches.length < need) return [];
+
+    const interests = rows.map(({ r }) => r._scoreBreakdown.artist + (r._scoreBreakdown.lineup ?? 0));
+    const artist = ctx.mode === "everyone"
+      ? Math.min(...interests) * members.length // least misery, on the same scale as the total
+      : interests.reduce((x, y) => x + y, 0);
+    const { _i, ...base } = rows[0].r;
+    const yours = new Set(matches.flatMap((x) => x.acts.map(toLc)));
+    return [{
+      ...base,
+      ...(base.lineup && {
+        lineup: base.lineup.map((a) => ({ ...a, yours: yours.has(toLc(a.name)) || undefined })),
+        your_acts: yours.size,
+      }),
+      tier: TIER_ORDER.find((t) => matches.some((x) => x.tier === t))!,
+      group: { mode: ctx.mode, matched: matches.length, of: members.length, members: matches },
+      _score: artist + base._scoreBreakdown.distance + base._scoreBreakdown.date,
+      _scoreBreakdown: { artist, distance: base._scoreBreakdown.distance, date: base._scoreBreakdown.date },
+    }];
+  });
+
+  return scored.sort(byScore((e) => e.distance_miles ?? Number.POSITIVE_INFINITY));
+}
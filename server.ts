@@ -8,17 +8,121 @@ import {
   ensureAccessToken,
   getFollowedArtists,
   getTopArtists,
-  getSavedTrackArtists, // Liked Songs
+  getCurrentUser,
+  hasScopes,
+  PLAYLIST_SCOPES,
+  type SavedTrackArtist,
+  type SpotifyAuth,
+  type TopArtist,
 } from "./spotify";
 
 import {
-  findAttractionIdsByName,
-  findTicketmasterEventsByAttractionId,
-  findTicketmasterEventsByKeywordStrict,
-  findTicketmasterEventsGeneric,
-} from "./ticketmaster";
+  findEventsByArtist,
+  findEventsGeneric,
+  providerStatus,
+  type EventItem,
+  type ProviderFailure,
+} from "./providers";
 
-import { rank } from "./rank"; // local dedupe below
+import {
+  rank,
+  rankGroup,
+  otherActs,
+  isRankProfile,
+  parseRankWeights,
+  RANK_PROFILES,
+  type ArtistAffinity,
+  type GroupMode,
+  type RankProfile,
+  type RankWeights,
+} from "./rank"; // local dedupe below
+import { clusterEvents } from "./cluster";
+import { buildGenreProfile, topTmGenres } from "./genres";
+import { eventsToIcs } from "./ics";
+import { openTable } from "./db";
+import { createHash } from "crypto";
+import {
+  savedSearches,
+  notifications,
+  runSavedSearch,
+  startAlertScheduler,
+  type SearchRunner,
+} from "./alerts";
+import {
+  users,
+  upsertUser,
+  updateUser,
+  getUserTokens,
+  saveUserTokens,
+  createSession,
+  resolveSession,
+  revokeSession,
+  startSessionPruner,
+  userSessions,
+  type SavedLocation,
+  type UserPreferences,
+} from "./users";
+import { newId, runLimited } from "./util";
+import { getTransport } from "./transport";
+import { applyTicketFilter, upcomingSales, type TicketFilter } from "./tickets";
+import {
+  API_SCHEMAS,
+  ARTISTS_SCHEMA,
+  GROUP_SCHEMA,
+  GROUP_SEARCH_SCHEMA,
+  LOCATION_SCHEMA,
+  PLAYLIST_SCHEMA,
+  PRESALES_SCHEMA,
+  SAVED_SEARCH_PARAMS,
+  SEARCH_SCHEMA,
+  apiError,
+  isApiError,
+  paginate,
+  pageWindow,
+  parseEventView,
+  parseAlertDelivery,
+  parsePlaylistEvents,
+  parseQuery,
+  viewEvents,
+  type ApiError,
+  type EventView,
+} from "./query";
+import { likedArtists, loadSnapshot, syncLibrary } from "./library";
+import {
+  jobs,
+  enqueue,
+  cancelJob,
+  deleteJob,
+  isActive,
+  loadProgress,
+  startJobWorker,
+  subscribe,
+  type JobRunner,
+  type SearchJob,
+} from "./jobs";
+import { defaultWindow, parseItinerary, resolvePlace, type ItineraryLeg } from "./itinerary";
+import { geocode, type Place } from "./geocode";
+import { aliasesFor, CURATED_ALIASES } from "./aliases";
+import { getMapping, type ArtistOverride } from "./artistmap";
+import { startIndexRefresher } from "./eventindex";
+import {
+  groups,
+  createGroup,
+  groupByInvite,
+  groupsOf,
+  joinGroup,
+  leaveGroup,
+  rotateInvite,
+  type Group,
+} from "./groups";
+import { fetchAttractionEvents } from "./ticketmaster";
+import { playlists, syncConcertPlaylist } from "./playlist";
+
+function requiredEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env ${name}`);
+  return v;
+}
 
 const app = express();
 app.use(express.json());
@@ -26,7 +130,7 @@ app.use(express.urlencoded({ extended: true }));
 app.use(
   cookieSession({
     name: "sess",
-    secret: process.env.SESSION_SECRET || "dev_secret",
+    secret: requiredEnv("SESSION_SECRET"), // cookie holds only an opaque session id (see users.ts)
     httpOnly: true,
     sameSite: "lax",
   })
@@ -36,15 +140,23 @@ app.use(
 app.use(express.static("public"));
 
 /** ---------------- Spotify OAuth ---------------- */
+// what the app reads, plus playlist writes (/api/me/playlist); SPOTIFY_SCOPES can add more
+const LOGIN_SCOPES = ["user-top-read", "user-library-read", "user-follow-read", ...PLAYLIST_SCOPES];
+
 app.get("/login", (req, res) => {
   const state = Math.random().toString(36).slice(2);
   (req.session as any).oauth_state = state;
 
+  // fake Spotify (HTTP_TRANSPORT=fake): skip the consent screen, any code will do
+  if (getTransport().id === "fake") {
+    return res.redirect(`/callback?${new URLSearchParams({ code: "fake", state })}`);
+  }
+
   const q = new URLSearchParams({
     client_id: process.env.SPOTIFY_CLIENT_ID || "",
     response_type: "code",
     redirect_uri: process.env.SPOTIFY_REDIRECT_URI || "",
-    scope: process.env.SPOTIFY_SCOPES || "",
+    scope: [...new Set([...LOGIN_SCOPES, ...(process.env.SPOTIFY_SCOPES || "").split(/\s+/).filter(Boolean)])].join(" "),
     state,
   });
 
@@ -61,8 +173,15 @@ app.get("/callback", async (req, res) => {
       code,
       process.env.SPOTIFY_REDIRECT_URI!
     );
-    (req.session as any).tokens = tokens;
-    res.redirect("/");
+    const profile = await getCurrentUser({ tokens });
+    const user = upsertUser(profile, tokens);
+
+    // replace any previous session (and drop the oauth state)
+    const old = (req.session as any).sid;
+    const join = (req.session as any).join; // group invite opened before signing in
+    if (old) revokeSession(old);
+    (req as any).session = { sid: createSession(user.id, req.get("user-agent")) };
+    res.redirect(join ? `/join/${encodeURIComponent(join)}` : "/");
   } catch (e: any) {
     console.error(e);
     res.status(500).send(e.message || "OAuth error");
@@ -70,21 +189,204 @@ app.get("/callback", async (req, res) => {
 });
 
 function requireAuth(req: any, res: any, next: any) {
-  if (!(req.session as any).tokens) {
+  const userId = resolveSession((req.session as any)?.sid);
+  if (!userId) {
+    req.session = null; // unknown or revoked: clear the cookie
     return res.status(401).json({ error: "Not authenticated" });
   }
+  req.userId = userId;
   next();
 }
 
+/** The user's Spotify credentials, refreshed if expired; later refreshes (on 401) are stored back too */
+async function userAuth(userId: string): Promise<SpotifyAuth> {
+  const tokens = getUserTokens(userId);
+  const ensured = await ensureAccessToken(tokens);
+  if (ensured !== tokens) saveUserTokens(userId, ensured);
+  return { tokens: ensured, onRefresh: (t) => saveUserTokens(userId, t) };
+}
+
+function userPreferences(userId: string): UserPreferences {
+  return users.get(userId)?.preferences || {};
+}
+
+function userLocations(userId: string): SavedLocation[] {
+  return users.get(userId)?.locations || [];
+}
+
+/** ---------------- Sessions ---------------- */
+startSessionPruner();
+
+// sessions are listed by a hash of their id so the id itself never leaves the cookie
+const sessionHandle = (sid: string) => createHash("sha256").update(sid).digest("hex").slice(0, 16);
+
+app.post("/logout", (req: any, res) => {
+  const sid = (req.session as any)?.sid;
+  if (sid) revokeSession(sid);
+  req.session = null;
+  res.json({ ok: true });
+});
+
+app.get("/api/me/sessions", requireAuth, (req: any, res) => {
+  const current = (req.session as any).sid;
+  const list = userSessions(req.userId).map(([sid, s]) => ({
+    id: sessionHandle(sid),
+    current: sid === current,
+    created_at: s.created_at,
+    last_seen_at: s.last_seen_at,
+    user_agent: s.user_agent,
+  }));
+  res.json({ sessions: list });
+});
+
+app.delete("/api/me/sessions/:id", requireAuth, (req: any, res) => {
+  const hit = userSessions(req.userId).find(([sid]) => sessionHandle(sid) === req.params.id);
+  if (!hit) return res.status(404).json({ error: "Not found" });
+  revokeSession(hit[0]);
+  res.json({ ok: true });
+});
+
+// sign out everywhere else
+app.delete("/api/me/sessions", requireAuth, (req: any, res) => {
+  const current = (req.session as any).sid;
+  const others = userSessions(req.userId).filter(([sid]) => sid !== current);
+  for (const [sid] of others) revokeSession(sid);
+  res.json({ revoked: others.length });
+});
+
+/** ---------------- Preferences + saved locations ---------------- */
+app.get("/api/me/preferences", requireAuth, (req: any, res) => {
+  res.json({ preferences: userPreferences(req.userId) });
+});
+
+// body: { ignore?: string[] | "a,b" }
+app.put("/api/me/preferences", requireAuth, (req: any, res) => {
+  const raw = req.body?.ignore;
+  if (raw !== undefined && !Array.isArray(raw) && typeof raw !== "string") {
+    return res.status(400).json(apiError("invalid_param", "ignore must be an array or comma-separated string", "ignore"));
+  }
+  const list = Array.isArray(raw) ? raw.map(String) : typeof raw === "string" ? raw.split(",") : undefined;
+  const user = updateUser(req.userId, (u) => ({
+    ...u,
+    preferences: {
+      ...u.preferences,
+      ...(list && { ignore: [...new Set(list.map(s => s.trim().toLowerCase()).filter(Boolean))] }),
+    },
+  }));
+  res.json({ preferences: user.preferences });
+});
+
+app.get("/api/me/locations", requireAuth, (req: any, res) => {
+  res.json({ locations: userLocations(req.userId) });
+});
+
+// body: { name, lat, lon }
+app.post("/api/me/locations", requireAuth, (req: any, res) => {
+  const body = parseQuery(LOCATION_SCHEMA, req.body);
+  if (isApiError(body)) return res.status(400).json(body);
+  const loc: SavedLocation = { id: newId(), ...body };
+  updateUser(req.userId, (u) => ({ ...u, locations: [...u.locations, loc] }));
+  res.status(201).json(loc);
+});
+
+app.delete("/api/me/locations/:id", requireAuth, (req: any, res) => {
+  updateUser(req.userId, (u) => ({ ...u, locations: u.locations.filter(l => l.id !== req.params.id) }));
+  res.json({ ok: true });
+});
+
+// ?q=Austin, TX | 78701 — lookup only, nothing is saved
+app.get("/api/geocode", requireAuth, async (req: any, res) => {
+  const place = await geocode((req.query.q || "").toString());
+  if (!place) return res.status(404).json({ error: "Place not found" });
+  res.json({ place });
+});
+
+/** ---------------- Artist aliases ---------------- */
+app.get("/api/me/aliases", requireAuth, (req: any, res) => {
+  res.json({ curated: CURATED_ALIASES, user: userPreferences(req.userId).aliases || {} });
+});
+
+// body: { aliases: string[] | "a,b" } — replaces the user's aliases for that artist
+app.put("/api/me/aliases/:artist", requireAuth, (req: any, res) => {
+  const raw = req.body?.aliases;
+  if (!Array.isArray(raw) && typeof raw !== "string") {
+    return res.status(400).json(apiError("invalid_param", "aliases must be an array or comma-separated string", "aliases"));
+  }
+  const list = (Array.isArray(raw) ? raw.map(String) : raw.split(",")).map(s => s.trim()).filter(Boolean);
+  const artist = req.params.artist.trim().toLowerCase();
+  const user = updateUser(req.userId, (u) => ({
+    ...u,
+    preferences: { ...u.preferences, aliases: { ...u.preferences.aliases, [artist]: [...new Set(list)] } },
+  }));
+  res.json({ artist, aliases: user.preferences.aliases?.[artist] || [] });
+});
+
+app.delete("/api/me/aliases/:artist", requireAuth, (req: any, res) => {
+  const artist = req.params.artist.trim().toLowerCase();
+  updateUser(req.userId, (u) => {
+    const { [artist]: _, ...rest } = u.preferences.aliases || {};
+    return { ...u, preferences: { ...u.preferences, aliases: rest } };
+  });
+  res.json({ ok: true });
+});
+
+/** ---------------- Spotify artist → Ticketmaster attraction mapping ---------------- */
+// The shared mapping is the resolver's alone; a user's overrides live in their preferences
+// and only steer their own searches (not group searches, which other members share).
+app.get("/api/artist-map", requireAuth, (req: any, res) => {
+  const mine = Object.entries(userPreferences(req.userId).artist_map || {}).map(([spotify_id, o]) => ({ spotify_id, ...o }));
+  res.json({ mappings: mine });
+});
+
+// the shared mapping and your override, if any
+app.get("/api/artist-map/:spotifyId", requireAuth, (req: any, res) => {
+  const mapping = getMapping(req.params.spotifyId);
+  const override = userPreferences(req.userId).artist_map?.[req.params.spotifyId];
+  if (!mapping && !override) return res.status(404).json({ error: "Not resolved yet" });
+  res.json({ spotify_id: req.params.spotifyId, mapping: mapping ?? null, override: override ?? null });
+});
+
+// body: { tm_ids: string[] | "K8vZ9171o…,…", name? } — [] means "not on Ticketmaster"
+app.put("/api/artist-map/:spotifyId", requireAuth, (req: any, res) => {
+  const raw = req.body?.tm_ids;
+  if (!Array.isArray(raw) && typeof raw !== "string") {
+    return res.status(400).json(apiError("invalid_param", "tm_ids must be an array or comma-separated string", "tm_ids"));
+  }
+  const ids = (Array.isArray(raw) ? raw.map(String) : raw.split(",")).map(s => s.trim()).filter(Boolean);
+  const name = typeof req.body?.name === "string" ? req.body.name : undefined;
+  const spotifyId = req.params.spotifyId;
+  const override: ArtistOverride = { tm_ids: [...new Set(ids)], ...(name && { name }), set_at: new Date().toISOString() };
+  updateUser(req.userId, (u) => ({
+    ...u,
+    preferences: { ...u.preferences, artist_map: { ...u.preferences.artist_map, [spotifyId]: override } },
+  }));
+  res.json({ spotify_id: spotifyId, ...override });
+});
+
+// drop your override; your searches go back to the shared mapping
+app.delete("/api/artist-map/:spotifyId", requireAuth, (req: any, res) => {
+  updateUser(req.userId, (u) => {
+    const { [req.params.spotifyId]: _, ...rest } = u.preferences.artist_map || {};
+    return { ...u, preferences: { ...u.preferences, artist_map: rest } };
+  });
+  res.json({ ok: true });
+});
+
 /** ---------------- Left column artists ---------------- */
+// ?page=&pageSize=&cursor=&sort=name|liked_count&source=liked,top&q=&genre=&fields= (see ARTISTS_SCHEMA)
 app.get("/api/me/artists", requireAuth, async (req: any, res) => {
+  const p = parseQuery(ARTISTS_SCHEMA, req.query);
+  if (isApiError(p)) return res.status(400).json(p);
+  const window = pageWindow(p);
+  if (isApiError(window)) return res.status(400).json(window);
+
   try {
-    const ensured = await ensureAccessToken((req.session as any).tokens);
-    (req.session as any).tokens = ensured;
+    const auth = await userAuth(req.userId);
 
-    const [top, followed] = await Promise.all([
-      getTopArtists(ensured.access_token),
-      getFollowedArtists(ensured.access_token),
+    const [top, followed, liked] = await Promise.all([
+      getTopArtists(auth),
+      getFollowedArtists(auth),
+      likedArtists(req.userId, auth).catch((e): SavedTrackArtist[] => { console.error(e); return []; }),
     ]);
 
     const byId = new Map<string, any>();
@@ -94,50 +396,104 @@ app.get("/api/me/artists", requireAuth, async (req: any, res) => {
       if (ex) ex.sources.add("Followed");
       else byId.set(a.id, { ...a, sources: new Set(["Followed"]) });
     }
+    // Liked-only artists after the rest, most-liked first
+    for (const a of [...liked].sort((x, y) => y.likedCount - x.likedCount)) {
+      const ex = byId.get(a.id);
+      if (ex) { ex.sources.add("Liked"); ex.likedCount = a.likedCount; }
+      else byId.set(a.id, { ...a, genres: [], sources: new Set(["Liked"]) });
+    }
 
-    const artists = [...byId.values()].map((a) => ({
+    let artists = [...byId.values()].map((a) => ({
       id: a.id,
       name: a.name,
-      genres: a.genres,
-      sources: [...a.sources],
+      genres: a.genres as string[],
+      sources: [...a.sources] as string[],
+      liked_count: (a.likedCount ?? 0) as number,
     }));
 
-    res.json({ artists });
+    const sources = new Set<string>(p.source);
+    if (sources.size) artists = artists.filter(a => a.sources.some(s => sources.has(s.toLowerCase())));
+    if (p.q) artists = artists.filter(a => a.name.toLowerCase().includes(p.q!.toLowerCase()));
+    if (p.genre) artists = artists.filter(a => a.genres.some(g => g.toLowerCase().includes(p.genre!.toLowerCase())));
+    if (p.sort && p.sort.key !== "default") {
+      const dir = p.sort.desc ? -1 : 1;
+      artists.sort(p.sort.key === "name"
+        ? (a, b) => a.name.localeCompare(b.name) * dir
+        : (a, b) => (a.liked_count - b.liked_count) * dir);
+    } else if (p.sort?.desc) {
+      artists.reverse();
+    }
+
+    const { items, ...page } = paginate(artists, window);
+    res.json({ ...page, artists: items });
   } catch (e: any) {
     console.error(e);
     res.status(500).json({ error: e.message || "Failed to fetch artists" });
   }
 });
 
-/** ---------------- Helpers ---------------- */
-async function sleep(ms: number) { return new Promise((r) => setTimeout(r, ms)); }
-async function runLimited<TInput, TOut>(
-  inputs: TInput[],
-  worker: (x: TInput) => Promise<TOut | TOut[]>,
-  limit = 2,
-  gapMs = 260
-): Promise<TOut[]> {
-  const results: TOut[] = [];
-  let idx = 0;
-
-  async function next(): Promise<void> {
-    const i = idx++;
-    if (i >= inputs.length) return;
-    const item = inputs[i];
-    try {
-      const r = await worker(item);
-      if (Array.isArray(r)) results.push(...r);
-      else if (typeof r !== "undefined") results.push(r);
-    } catch (e) { console.error(e); }
-    await sleep(gapMs);
-    return next();
-  }
+/** The query grammar: every param each endpoint accepts, with types, limits and defaults */
+app.get("/api/schema", (_req, res) => {
+  res.json({
+    errors: { shape: "{ error, code, param? }", codes: ["missing_param", "invalid_param", "invalid_cursor"] },
+    endpoints: API_SCHEMAS,
+  });
+});
 
-  const starters = Array.from({ length: Math.min(limit, inputs.length) }, () => next());
-  await Promise.all(starters);
-  return results;
+/** ---------------- Liked Songs snapshot ---------------- */
+function libraryStats(snap: ReturnType<typeof loadSnapshot>) {
+  if (!snap) return { synced: false };
+  return {
+    synced: true,
+    tracks: snap.tracks.length,
+    total: snap.total,
+    synced_at: snap.synced_at,
+    full_synced_at: snap.full_synced_at,
+  };
 }
 
+app.get("/api/me/library", requireAuth, (req: any, res) => {
+  res.json(libraryStats(loadSnapshot(req.userId)));
+});
+
+// Drop the incremental state and re-read the whole library
+app.post("/api/me/library/resync", requireAuth, async (req: any, res) => {
+  try {
+    const snap = await syncLibrary(req.userId, await userAuth(req.userId), { full: true });
+    res.json(libraryStats(snap));
+  } catch (e: any) {
+    console.error(e);
+    res.status(500).json({ error: e.message || "Library sync failed" });
+  }
+});
+
+/** ---------------- Ranking settings ---------------- */
+app.get("/api/settings/ranking", requireAuth, (req: any, res) => {
+  res.json({
+    profiles: RANK_PROFILES,
+    saved: userPreferences(req.userId).ranking || {},
+  });
+});
+
+// body: { profile?: "balanced", weights?: "liked:200,dateWeight:2" }
+app.put("/api/settings/ranking", requireAuth, (req: any, res) => {
+  const { profile, weights } = req.body || {};
+  if (profile !== undefined && !isRankProfile(profile)) {
+    return res.status(400).json(apiError("invalid_param", `Unknown profile "${profile}"`, "profile"));
+  }
+  try {
+    const settings: RankingSettings = {
+      profile,
+      weights: typeof weights === "string" ? parseRankWeights(weights) : undefined,
+    };
+    updateUser(req.userId, (u) => ({ ...u, preferences: { ...u.preferences, ranking: settings } }));
+    res.json({ saved: settings });
+  } catch (e: any) {
+    res.status(400).json(apiError("invalid_param", e.message, "weights"));
+  }
+});
+
+/** ---------------- Helpers ---------------- */
 // local de-dupe
 function dedupe<T extends { source?: string; source_id?: string; url?: string; event_name?: string; start_utc?: string }>(items: T[]): T[] {
   const seen = new Set<string>();
@@ -162,140 +518,907 @@ function uniquePreserveOrder(names: string[]) {
 }
 
 /** ---------------- Events: Liked > Top > Followed; no recent, no related ---------------- */
-app.get("/api/events", requireAuth, async (req: any, res) => {
-  try {
-    const lat = parseFloat(req.query.lat);
-    const lon = parseFloat(req.query.lon);
-    const radius = req.query.radius ? parseFloat(req.query.radius) : 120;
-    const days = req.query.days ? parseInt(req.query.days, 10) : 180; // ~6 months
-    const breadth = (req.query.breadth || "wide").toString(); // "tight" | "balanced" | "wide"
-    const capOverride = req.query.cap ? Math.max(1, Math.min(1500, parseInt(req.query.cap as string, 10))) : undefined;
-
-    if (Number.isNaN(lat) || Number.isNaN(lon)) {
-      return res.status(400).json({ error: "lat and lon required" });
-    }
+type EventsQuery = {
+  /** one leg for a plain lat/lon search, several for ?legs= (see itinerary.ts) */
+  legs: ItineraryLeg[];
+  breadth: "tight" | "balanced" | "wide";
+  capOverride?: number;
+  ignoreSet: Set<string>;
+  profile: RankProfile;
+  weights: Partial<RankWeights>;
+  /** "artists" (default): your artists' shows; "discover": unfamiliar artists in your genres */
+  mode: "artists" | "discover";
+  /** max_price / hide_cancelled, see tickets.ts */
+  tickets: TicketFilter;
+  /** filters, sort and paging applied to the ranked list (endpoints only; alerts see everything) */
+  view: EventView;
+};
 
-    // Optional blacklist (comma-separated in env or ?ignore=Drake%20White,Some%20Band)
-    const ignoreParam = (req.query.ignore as string | undefined) || process.env.IGNORE_ARTISTS || "";
-    const ignoreSet = new Set(
-      ignoreParam.split(",").map(s => s.trim().toLowerCase()).filter(Boolean)
-    );
+/** Ranking choice saved via /api/settings/ranking */
+type RankingSettings = NonNullable<UserPreferences["ranking"]>;
 
-    const ensured = await ensureAccessToken((req.session as any).tokens);
-    (req.session as any).tokens = ensured;
+type EventsHooks = {
+  /** fired once the artist list is known */
+  onStart?: (total: number) => void;
+  /** fired as each artist's query settles */
+  onArtist?: (artist: string, events: EventItem[], done: number, total: number) => void;
+  /** a provider failed for this artist (after its own retries) — its events are missing */
+  onFailure?: (f: ArtistFailure) => void;
+  signal?: AbortSignal;
+  /** artists an interrupted job already queried, and their events (see jobs.ts) */
+  resume?: { done: Set<string>; events: EventItem[] };
+};
 
-    // ONLY your Spotify signals (no recent, no saved albums, no related)
-    const [top, followed, savedTracks] = await Promise.all([
-      getTopArtists(ensured.access_token),
-      getFollowedArtists(ensured.access_token),
-      getSavedTrackArtists(ensured.access_token).catch(() => []), // Liked Songs
-    ]);
+/** artist is "" for the generic/discovery queries */
+type ArtistFailure = ProviderFailure & { artist: string };
 
-    // Order = Liked first, then Top, then Followed. Remove ignored.
-    const likedNames = savedTracks.map(a => a.name).filter(n => !ignoreSet.has(n.toLowerCase()));
-    const topNames = top.map(a => a.name).filter(n => !ignoreSet.has(n.toLowerCase()));
-    const followedNames = followed.map(a => a.name).filter(n => !ignoreSet.has(n.toLowerCase()));
-
-    const defaultCap =
-      breadth === "tight" ? 320 :
-      breadth === "balanced" ? 520 :
-      820; // wide
-    const cap = capOverride ?? defaultCap;
-
-    const names = uniquePreserveOrder([
-      ...likedNames,
-      ...topNames,
-      ...followedNames,
-    ]).slice(0, cap);
-
-    const likedSet    = new Set(likedNames.map(n => n.toLowerCase()));
-    const topSet      = new Set(topNames.map(n => n.toLowerCase()));
-    const followedSet = new Set(followedNames.map(n => n.toLowerCase()));
-    const coreSet     = new Set(names.map(n => n.toLowerCase()));
-
-    // date window: start-of-today UTC → +N days
-    const startUtc = new Date();
-    startUtc.setUTCHours(0, 0, 0, 0);
-    const startIso = startUtc.toISOString();
-    const endIso = new Date(startUtc.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
-
-    // Per-artist query: attractionId (exact-only + verify name) → strict keyword (performer equality)
-    async function queryForArtist(artist: string) {
-      const ids = await findAttractionIdsByName(artist, { exactOnly: true });
-      if (ids.length) {
-        const viaIds = await runLimited(
-          ids,
-          (id) =>
-            findTicketmasterEventsByAttractionId({
-              attractionId: id,
-              expectedArtistName: artist, // verify name equals Spotify artist
-              lat,
-              lon,
-              radiusMiles: radius,
-              startDateTimeISO: startIso,
-              endDateTimeISO: endIso,
-            }),
-          2,
-          200
-        );
-        if (viaIds.length) return viaIds;
-      }
+/** Validate a search (see SEARCH_SCHEMA + EVENTS_VIEW_SCHEMA in query.ts); bad input → typed ApiError */
+async function parseEventsQuery(
+  query: any,
+  prefs: UserPreferences = {},
+  locations: SavedLocation[] = []
+): Promise<EventsQuery | ApiError> {
+  const p = parseQuery(SEARCH_SCHEMA, query);
+  if (isApiError(p)) return p;
+  const view = parseEventView(query);
+  if (isApiError(view)) return view;
 
-      // strict keyword (performer equality; title ignored)
-      const strict = await findTicketmasterEventsByKeywordStrict({
-        artistName: artist,
-        lat, lon, radiusMiles: radius,
-        startDateTimeISO: startIso, endDateTimeISO: endIso,
-      });
-      return strict;
+  // Several places at once (?legs=...), a place name (?place=Austin, TX), else the single lat/lon
+  let legs: ItineraryLeg[];
+  if (p.legs) {
+    try {
+      legs = await parseItinerary(p.legs, { radius: p.radius, days: p.days, locations });
+    } catch (e: any) {
+      return apiError("invalid_param", e.message, "legs");
     }
+  } else if (p.place) {
+    try {
+      const where = await resolvePlace(p.place, locations);
+      legs = [{ ...where, radiusMiles: p.radius, ...defaultWindow(p.days) }];
+    } catch (e: any) {
+      return apiError("invalid_param", e.message, "place");
+    }
+  } else if (p.lat === undefined || p.lon === undefined) {
+    return apiError("missing_param", "lat and lon (or place, or legs) required", p.lat === undefined ? "lat" : "lon");
+  } else {
+    legs = [{ name: "here", lat: p.lat, lon: p.lon, radiusMiles: p.radius, ...defaultWindow(p.days) }];
+  }
 
-    // Conservative concurrency to avoid 429
-    let all = await runLimited(names, queryForArtist, 2, 260);
-
-    // Fallback to generic only if nothing found — liked first, then core, both minus ignored
-    if (all.length === 0) {
-      try {
-        const generic = await findTicketmasterEventsGeneric({
-          lat, lon, radiusMiles: radius,
-          startDateTimeISO: startIso, endDateTimeISO: endIso,
-          size: 200,
-        });
-        let filtered = generic.filter(e => {
-          const n = (e.artist_name || "").toLowerCase();
-          return !ignoreSet.has(n) && likedSet.has(n);
-        });
-        if (filtered.length === 0) {
-          filtered = generic.filter(e => {
-            const n = (e.artist_name || "").toLowerCase();
-            return !ignoreSet.has(n) && coreSet.has(n);
-          });
-        }
-        all = filtered;
-      } catch (e) {
+  // Optional blacklist (?ignore=Drake%20White,Some%20Band, else saved preference, else env)
+  const ignore = p.ignore?.length ? p.ignore : prefs.ignore?.length ? prefs.ignore : (process.env.IGNORE_ARTISTS || "").split(",");
+  const ignoreSet = new Set(ignore.map(s => s.trim().toLowerCase()).filter(Boolean));
+
+  // Ranking: ?profile=closest-first&weights=liked:200,distanceWeight:3 (over saved settings)
+  const saved = prefs.ranking || {};
+  const profile = p.profile || saved.profile || "artist-heavy";
+  if (!isRankProfile(profile)) {
+    return apiError("invalid_param", `Unknown profile "${profile}" (known: ${Object.keys(RANK_PROFILES).join(", ")})`, "profile");
+  }
+  let weights: Partial<RankWeights>;
+  try {
+    weights = { ...saved.weights, ...parseRankWeights(p.weights || "") };
+  } catch (e: any) {
+    return apiError("invalid_param", e.message, "weights");
+  }
+
+  return {
+    legs,
+    breadth: p.breadth,
+    capOverride: p.cap,
+    ignoreSet,
+    profile,
+    weights,
+    mode: p.mode,
+    tickets: { maxPrice: p.max_price, hideCancelled: p.hide_cancelled },
+    view,
+  };
+}
+
+/** parseEventsQuery for a signed-in request; places the geocoder resolved become saved locations */
+async function parseUserQuery(userId: string, query: any) {
+  const q = await parseEventsQuery(query, userPreferences(userId), userLocations(userId));
+  if (!("error" in q)) rememberPlaces(userId, q.legs.flatMap(l => (l.place ? [l.place] : [])));
+  return q;
+}
+
+function rememberPlaces(userId: string, places: Place[]) {
+  const fresh = places.filter(p =>
+    !userLocations(userId).some(l => l.name.toLowerCase() === p.name.toLowerCase() || (l.lat === p.lat && l.lon === p.lon))
+  );
+  if (!fresh.length) return;
+  const added = fresh.map((p): SavedLocation => ({ id: newId(), name: p.name, lat: p.lat, lon: p.lon }));
+  updateUser(userId, (u) => ({ ...u, locations: [...u.locations, ...added] }));
+}
+
+async function searchEvents(userId: string, q: EventsQuery, hooks: EventsHooks = {}) {
+  return applyTicketFilter(await searchRanked(userId, q, hooks), q.tickets);
+}
+
+/** One user's Spotify side of a search: their artists in query order and how much they listen to each */
+type UserSignals = {
+  top: TopArtist[];
+  followed: Awaited<ReturnType<typeof getFollowedArtists>>;
+  savedTracks: SavedTrackArtist[];
+  /** Liked first, then Top, then Followed; ignored artists removed; not capped */
+  names: string[];
+  likedSet: Set<string>;
+  topSet: Set<string>;
+  followedSet: Set<string>;
+  affinity: Map<string, ArtistAffinity>;
+  /** lower-cased name → Spotify id, for the stored attraction mapping */
+  spotifyIds: Map<string, string>;
+};
+
+async function userSignals(userId: string, ignoreSet: Set<string>, onFailure?: (f: ArtistFailure) => void): Promise<UserSignals> {
+  const auth = await userAuth(userId);
+  const spotifyIncomplete = (what: string) => (e: Error, fetched: number) =>
+    onFailure?.({ provider: "spotify", artist: "", error: `${what} incomplete after ${fetched}: ${e.message}` });
+
+  // ONLY your Spotify signals (no recent, no saved albums, no related)
+  const [top, followed, savedTracks] = await Promise.all([
+    getTopArtists(auth),
+    getFollowedArtists(auth, { onIncomplete: spotifyIncomplete("Followed artists") }),
+    // Liked Songs: keep partial pages; a total failure is reported, not fatal
+    likedArtists(userId, auth, { onIncomplete: spotifyIncomplete("Liked Songs") })
+      .catch((e): SavedTrackArtist[] => {
         console.error(e);
-      }
+        onFailure?.({ provider: "spotify", artist: "", error: `Liked Songs unavailable: ${e.message}` });
+        return [];
+      }),
+  ]);
+
+  // Order = Liked first, then Top, then Followed. Remove ignored.
+  const likedNames = savedTracks.map(a => a.name).filter(n => !ignoreSet.has(n.toLowerCase()));
+  const topNames = top.map(a => a.name).filter(n => !ignoreSet.has(n.toLowerCase()));
+  const followedNames = followed.map(a => a.name).filter(n => !ignoreSet.has(n.toLowerCase()));
+
+  // Per-artist listening signals for continuous scoring (keyed like the sets)
+  const affinity = new Map<string, ArtistAffinity>();
+  const aff = (name: string) => {
+    const k = name.toLowerCase();
+    if (!affinity.has(k)) affinity.set(k, {});
+    return affinity.get(k)!;
+  };
+  for (const a of savedTracks) {
+    const x = aff(a.name);
+    x.likedCount = (x.likedCount || 0) + a.likedCount;
+    if (!x.lastSavedAt || (a.lastSavedAt && a.lastSavedAt > x.lastSavedAt)) x.lastSavedAt = a.lastSavedAt;
+  }
+  for (const a of top) aff(a.name).topRanks = [...(aff(a.name).topRanks || []), ...a.ranks];
+  for (const a of followed) aff(a.name).followed = true;
+
+  const spotifyIds = new Map<string, string>();
+  for (const a of [...savedTracks, ...top, ...followed]) {
+    if (a.id && !spotifyIds.has(a.name.toLowerCase())) spotifyIds.set(a.name.toLowerCase(), a.id);
+  }
+
+  return {
+    top,
+    followed,
+    savedTracks,
+    names: uniquePreserveOrder([...likedNames, ...topNames, ...followedNames]),
+    likedSet: new Set(likedNames.map(n => n.toLowerCase())),
+    topSet: new Set(topNames.map(n => n.toLowerCase())),
+    followedSet: new Set(followedNames.map(n => n.toLowerCase())),
+    affinity,
+    spotifyIds,
+  };
+}
+
+function artistCap(q: EventsQuery) {
+  const defaultCap =
+    q.breadth === "tight" ? 320 :
+    q.breadth === "balanced" ? 520 :
+    820; // wide
+  return q.capOverride ?? defaultCap;
+}
+
+// every leg is searched separately; events remember which leg found them
+const tagged = (leg: ItineraryLeg, events: EventItem[]) => events.map(e => ({ ...e, leg: leg.name }));
+
+/** Per-artist query across every configured provider (see providers.ts), once per leg, with progress + resume hooks */
+async function queryArtists(
+  names: string[],
+  legs: ItineraryLeg[],
+  hints: { userAliases?: Record<string, string[]>; userArtistMap?: Record<string, ArtistOverride>; spotifyIds: Map<string, string> },
+  hooks: EventsHooks
+) {
+  const queryForArtist = async (artist: string) => {
+    const spotifyId = hints.spotifyIds.get(artist.toLowerCase());
+    const h = {
+      aliases: aliasesFor(artist, hints.userAliases),
+      spotifyId,
+      tmIds: spotifyId ? hints.userArtistMap?.[spotifyId]?.tm_ids : undefined,
+    };
+    const out: EventItem[] = [];
+    for (const leg of legs) {
+      const events = await findEventsByArtist(artist, leg, (f) => hooks.onFailure?.({ ...f, artist }), h);
+      out.push(...tagged(leg, events));
     }
+    return out;
+  };
+
+  hooks.onStart?.(names.length);
+  const resumed = hooks.resume;
+  const pending = resumed ? names.filter(n => !resumed.done.has(n)) : names;
+  let done = names.length - pending.length;
+
+  // Conservative concurrency to avoid 429
+  return [
+    ...(resumed?.events || []),
+    ...await runLimited(pending, queryForArtist, 2, 260, {
+      signal: hooks.signal,
+      onSettled: (artist, events) => hooks.onArtist?.(artist, events, ++done, names.length),
+    }),
+  ];
+}
+
+async function searchRanked(userId: string, q: EventsQuery, hooks: EventsHooks) {
+  const { legs, ignoreSet, profile, weights, mode } = q;
 
-    const unique = dedupe(all);
+  const me = await userSignals(userId, ignoreSet, hooks.onFailure);
+  const names = me.names.slice(0, artistCap(q));
+  const coreSet = new Set(names.map(n => n.toLowerCase()));
+  const legOrigins = new Map(legs.map(l => [l.name, { lat: l.lat, lon: l.lon }]));
 
-    const ranked = rank(unique, {
-      userLat: lat,
-      userLon: lon,
-      likedArtistNames: likedSet,
-      topArtistNames: topSet,
-      followedArtistNames: followedSet,
-      preferredArtistNames: coreSet,
-      profile: "artist-heavy",
+  if (mode === "discover") {
+    return discoverEvents({
+      legs, top: me.top, followed: me.followed, ignoreSet, profile, weights,
+      onFailure: hooks.onFailure,
+      known: new Set([...me.savedTracks, ...me.top, ...me.followed].map(a => a.name.toLowerCase())),
     });
+  }
+
+  const prefs = userPreferences(userId);
+  let all = await queryArtists(names, legs, { userAliases: prefs.aliases, userArtistMap: prefs.artist_map, spotifyIds: me.spotifyIds }, hooks);
+
+  // Fallback to generic only if nothing found — liked first, then core, both minus ignored
+  if (all.length === 0 && !hooks.signal?.aborted) {
+    try {
+      const generic: EventItem[] = [];
+      for (const leg of legs) {
+        const events = await findEventsGeneric({ ...leg, size: 200 }, (f) => hooks.onFailure?.({ ...f, artist: "" }));
+        generic.push(...tagged(leg, events));
+      }
+      // headliner or anyone else on the bill
+      const hasAct = (e: EventItem, set: Set<string>) => {
+        const n = (e.artist_name || "").toLowerCase();
+        return !ignoreSet.has(n) && (set.has(n) || otherActs(e).some(a => set.has(a)));
+      };
+      let filtered = generic.filter(e => hasAct(e, me.likedSet));
+      if (filtered.length === 0) {
+        filtered = generic.filter(e => hasAct(e, coreSet));
+      }
+      all = filtered;
+    } catch (e) {
+      console.error(e);
+    }
+  }
+
+  // exact duplicates first, then same show listed several ways (resale, VIP, other sources)
+  const unique = clusterEvents(dedupe(all));
+
+  return rank(unique, {
+    legOrigins,
+    likedArtistNames: me.likedSet,
+    topArtistNames: me.topSet,
+    followedArtistNames: me.followedSet,
+    affinity: me.affinity,
+    preferredArtistNames: coreSet,
+    profile,
+    weights,
+  });
+}
+
+/** Nearby shows by artists the user has never listened to, in the user's strongest genres */
+async function discoverEvents(opts: {
+  legs: ItineraryLeg[];
+  top: TopArtist[];
+  followed: { name: string; genres: string[] }[];
+  known: Set<string>;
+  ignoreSet: Set<string>;
+  profile: RankProfile;
+  weights: Partial<RankWeights>;
+  onFailure?: (f: ArtistFailure) => void;
+}) {
+  const { legs, known, ignoreSet } = opts;
+  const genreProfile = buildGenreProfile(opts.top, opts.followed);
+  const genres = topTmGenres(genreProfile);
+  if (!genres.length) return [];
 
-    res.json({ count: ranked.length, events: ranked.slice(0, 220) });
+  const generic: EventItem[] = [];
+  for (const leg of legs) {
+    const events = await findEventsGeneric({ ...leg, size: 200, genres }, (f) => opts.onFailure?.({ ...f, artist: "" }));
+    generic.push(...events.map(e => ({ ...e, leg: leg.name })));
+  }
+  const picks = generic
+    .filter(e => {
+      const n = (e.artist_name || "").toLowerCase();
+      return n && !known.has(n) && !ignoreSet.has(n);
+    })
+    .map(e => ({ ...e, discovery: true }));
+
+  return rank(clusterEvents(dedupe(picks)), {
+    legOrigins: new Map(legs.map(l => [l.name, { lat: l.lat, lon: l.lon }])),
+    likedArtistNames: new Set(),
+    topArtistNames: new Set(),
+    followedArtistNames: new Set(),
+    profile: opts.profile,
+    weights: opts.weights,
+    genreProfile,
+  });
+}
+
+/** The requested page of a ranked list: { count, page, pageSize, next_cursor, events } */
+function eventsPage<T extends EventItem>(ranked: T[], view: EventView) {
+  const { items, ...page } = paginate(viewEvents(ranked, view), view.window);
+  return { ...page, events: items };
+}
+
+app.get("/api/events", requireAuth, async (req: any, res) => {
+  try {
+    const q = await parseUserQuery(req.userId, req.query);
+    if ("error" in q) return res.status(400).json(q);
+
+    const failed: ArtistFailure[] = [];
+    const ranked = await searchEvents(req.userId, q, { onFailure: (f) => failed.push(f) });
+    res.json({
+      ...eventsPage(ranked, q.view),
+      legs: q.legs,
+      place: q.legs.length === 1 ? q.legs[0].place : undefined, // what ?place= resolved to
+      failed, // artists whose results are missing (quota, persistent 429/5xx)
+      providers: providerStatus(),
+    });
   } catch (e: any) {
     console.error(e);
     res.status(500).json({ error: e.message || "Failed to fetch events" });
   }
 });
 
+/** Same search as /api/events, streamed as Server-Sent Events:
+ *  `start` {total} → `artist` {artist, events, done, total} per artist (+ `failure` {artist, provider, error})
+ *  → `done` {count, page, pageSize, next_cursor, events, legs, failed, providers} (ranked, filtered, paged) */
+app.get("/api/events/stream", requireAuth, async (req: any, res) => {
+  let q: EventsQuery;
+  try {
+    const parsed = await parseUserQuery(req.userId, req.query);
+    if ("error" in parsed) return res.status(400).json(parsed);
+    q = parsed;
+  } catch (e: any) {
+    console.error(e);
+    return res.status(500).json({ error: e.message || "Failed to fetch events" });
+  }
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // stop querying once the browser goes away
+  const abort = new AbortController();
+  req.on("close", () => abort.abort());
+
+  try {
+    const failed: ArtistFailure[] = [];
+    const ranked = await searchEvents(req.userId, q, {
+      signal: abort.signal,
+      onStart: (total) => send("start", { total }),
+      onArtist: (artist, events, done, total) => send("artist", { artist, events, done, total }),
+      onFailure: (f) => { failed.push(f); send("failure", f); },
+    });
+    send("done", { ...eventsPage(ranked, q.view), legs: q.legs, place: q.legs.length === 1 ? q.legs[0].place : undefined, failed, providers: providerStatus() });
+  } catch (e: any) {
+    console.error(e);
+    send("error", { error: e.message || "Failed to fetch events" });
+  }
+  res.end();
+});
+
+/** ---------------- Presales / on-sales opening soon ---------------- */
+// Same params as /api/events plus ?within=7 (days); default order is soonest sale first
+app.get("/api/presales", requireAuth, async (req: any, res) => {
+  try {
+    const p = parseQuery(PRESALES_SCHEMA, req.query);
+    if (isApiError(p)) return res.status(400).json(p);
+    const q = await parseUserQuery(req.userId, req.query);
+    if ("error" in q) return res.status(400).json(q);
+
+    const failed: ArtistFailure[] = [];
+    const events = upcomingSales(await searchEvents(req.userId, q, { onFailure: (f) => failed.push(f) }), p.within);
+    res.json({ ...eventsPage(events, q.view), within: p.within, legs: q.legs, failed, providers: providerStatus() });
+  } catch (e: any) {
+    console.error(e);
+    res.status(500).json({ error: e.message || "Failed to fetch presales" });
+  }
+});
+
+/** ---------------- Calendar export ---------------- */
+// filters, sort and paging apply; field selection doesn't (a VEVENT needs the whole event)
+function icsPage(ranked: EventItem[], view: EventView) {
+  const { offset, pageSize } = view.window;
+  return viewEvents(ranked, view).slice(offset, offset + pageSize);
+}
+
+app.get("/api/events.ics", requireAuth, async (req: any, res) => {
+  try {
+    const q = await parseUserQuery(req.userId, req.query);
+    if ("error" in q) return res.status(400).json(q);
+
+    const ranked = await searchEvents(req.userId, q);
+    res.set({
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="concerts.ics"',
+    });
+    res.send(eventsToIcs(icsPage(ranked, q.view)));
+  } catch (e: any) {
+    console.error(e);
+    res.status(500).json({ error: e.message || "Failed to export events" });
+  }
+});
+
+/** Subscribable feed: the secret token in the URL stands in for the session */
+type CalendarFeed = {
+  owner: string;                  // user id
+  params: Record<string, string>; // saved /api/events query (lat, lon, radius, days, ignore)
+  created_at: string;
+};
+const feeds = openTable<CalendarFeed>("feeds");
+const FEED_PARAMS = ["lat", "lon", "place", "radius", "days", "legs", "ignore", "max_price", "hide_cancelled"] as const;
+
+// body: { lat, lon | place | legs, radius?, days?, ignore?, max_price?, hide_cancelled? } — replaces the user's previous feed
+app.post("/api/feed", requireAuth, async (req: any, res) => {
+  const params: Record<string, string> = {};
+  for (const k of FEED_PARAMS) {
+    const v = req.body?.[k];
+    if (v !== undefined && v !== null && v !== "") params[k] = String(v);
+  }
+  try {
+    const q = await parseUserQuery(req.userId, params);
+    if ("error" in q) return res.status(400).json(q);
+
+    const old = users.get(req.userId)?.feed_token;
+    if (old) feeds.delete(old);
+
+    const token = newId(24);
+    feeds.set(token, { owner: req.userId, params, created_at: new Date().toISOString() });
+    updateUser(req.userId, (u) => ({ ...u, feed_token: token }));
+
+    res.json({ url: `${req.protocol}://${req.get("host")}/feed/${token}.ics`, params });
+  } catch (e: any) {
+    console.error(e);
+    res.status(500).json({ error: e.message || "Failed to create feed" });
+  }
+});
+
+app.delete("/api/feed", requireAuth, (req: any, res) => {
+  const token = users.get(req.userId)?.feed_token;
+  if (token) feeds.delete(token);
+  updateUser(req.userId, (u) => ({ ...u, feed_token: undefined }));
+  res.json({ ok: true });
+});
+
+app.get("/feed/:token.ics", async (req: any, res) => {
+  const feed = feeds.get(req.params.token);
+  if (!feed) return res.status(404).send("Unknown feed");
+  try {
+    const q = await parseEventsQuery(feed.params, userPreferences(feed.owner), userLocations(feed.owner));
+    if ("error" in q) return res.status(400).send(q.error);
+
+    const ranked = await searchEvents(feed.owner, q);
+    res.set("Content-Type", "text/calendar; charset=utf-8");
+    res.send(eventsToIcs(icsPage(ranked, q.view), { name: "Concerts Finder" }));
+  } catch (e: any) {
+    console.error(e);
+    res.status(500).send(e.message || "Failed to build feed");
+  }
+});
+
+/** ---------------- Saved searches + new-show alerts ---------------- */
+const runSearch: SearchRunner = async (search) => {
+  const q = await parseEventsQuery(search.params, userPreferences(search.owner), userLocations(search.owner));
+  if ("error" in q) throw new Error(q.error);
+  return searchEvents(search.owner, q);
+};
+
+app.get("/api/searches", requireAuth, (req: any, res) => {
+  const searches = savedSearches.all()
+    .filter(([, s]) => s.owner === req.userId)
+    .map(([, { last_ids, ...s }]) => ({ ...s, known_events: last_ids?.length ?? 0 }));
+  res.json({ searches });
+});
+
+// body: { name?, lat, lon | place | legs, radius?, days?, breadth?, ignore?, max_price?, hide_cancelled?, email?, webhook_url? }
+app.post("/api/searches", requireAuth, async (req: any, res) => {
+  const deliver = parseAlertDelivery(req.body);
+  if (isApiError(deliver)) return res.status(400).json(deliver);
+  const params: Record<string, string> = {};
+  for (const k of SAVED_SEARCH_PARAMS) {
+    const v = req.body?.[k];
+    if (v !== undefined && v !== null && v !== "") params[k] = String(v);
+  }
+  try {
+    const q = await parseUserQuery(req.userId, params);
+    if ("error" in q) return res.status(400).json(q);
+
+    const id = newId();
+    const name = (req.body?.name || (params.legs || params.place ? q.legs.map(l => l.name).join(" → ") : `${params.lat}, ${params.lon}`)).toString();
+    savedSearches.set(id, {
+      id,
+      owner: req.userId,
+      name,
+      params,
+      deliver,
+      created_at: new Date().toISOString(),
+    });
+    // the baseline run, so alerts start with the first scheduled run rather than the one after
+    runSavedSearch(id, runSearch).catch((e) => console.error(`[alerts] baseline for ${id}`, e));
+    res.status(201).json({ id, name, params, deliver });
+  } catch (e: any) {
+    console.error(e);
+    res.status(500).json({ error: e.message || "Failed to save search" });
+  }
+});
+
+// body: { email?, webhook_url? } — replaces the search's delivery targets
+app.put("/api/searches/:id/deliver", requireAuth, (req: any, res) => {
+  const s = savedSearches.get(req.params.id);
+  if (!s || s.owner !== req.userId) return res.status(404).json({ error: "Not found" });
+  const deliver = parseAlertDelivery(req.body);
+  if (isApiError(deliver)) return res.status(400).json(deliver);
+  savedSearches.set(s.id, { ...s, deliver });
+  res.json({ id: s.id, deliver });
+});
+
+app.delete("/api/searches/:id", requireAuth, (req: any, res) => {
+  const s = savedSearches.get(req.params.id);
+  if (!s || s.owner !== req.userId) return res.status(404).json({ error: "Not found" });
+  savedSearches.delete(s.id);
+  res.json({ ok: true });
+});
+
+// run now instead of waiting for the scheduler
+app.post("/api/searches/:id/run", requireAuth, async (req: any, res) => {
+  const s = savedSearches.get(req.params.id);
+  if (!s || s.owner !== req.userId) return res.status(404).json({ error: "Not found" });
+  try {
+    const created = await runSavedSearch(s.id, runSearch);
+    res.json({ new_events: created.map(n => n.event), baseline: !s.last_ids });
+  } catch (e: any) {
+    console.error(e);
+    res.status(500).json({ error: e.message || "Search failed" });
+  }
+});
+
+app.get("/api/notifications", requireAuth, (req: any, res) => {
+  const items = notifications.all()
+    .map(([, n]) => n)
+    .filter(n => n.owner === req.userId)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  res.json({ notifications: items });
+});
+
+startAlertScheduler(runSearch);
+
+// keep the shared attraction → events index fresh for the artists people search
+startIndexRefresher(fetchAttractionEvents);
+
+/** ---------------- Groups ---------------- */
+// Members join via the invite link; a group search queries everyone's artists once and
+// ranks with every member's signals (rankGroup in rank.ts).
+
+const memberName = (id: string) => users.get(id)?.display_name || id;
+
+function groupView(g: Group, req: any) {
+  return {
+    id: g.id,
+    name: g.name,
+    owner: g.owner,
+    members: g.members.map(id => ({ id, name: memberName(id) })),
+    invite_url: `${req.protocol}://${req.get("host")}/join/${g.invite_token}`,
+    created_at: g.created_at,
+  };
+}
+
+function memberGroup(req: any) {
+  const g = groups.get(req.params.id);
+  return g && g.members.includes(req.userId) ? g : undefined;
+}
+
+/** a, b, c + x, y → a, x, b, y, c: every member's favourites make the cap, not just the first member's */
+function interleave(lists: string[][]) {
+  const out: string[] = [];
+  for (let i = 0; lists.some(l => i < l.length); i++) {
+    for (const l of lists) if (i < l.length) out.push(l[i]);
+  }
+  return out;
+}
+
+async function searchGroup(group: Group, q: EventsQuery, mode: GroupMode, hooks: EventsHooks = {}) {
+  // a member whose Spotify access fails is left out (and reported), not the whole search
+  const members: { id: string; signals: UserSignals }[] = [];
+  for (const id of group.members) {
+    try {
+      members.push({ id, signals: await userSignals(id, q.ignoreSet, hooks.onFailure) });
+    } catch (e: any) {
+      console.error(e);
+      hooks.onFailure?.({ provider: "spotify", artist: "", error: `${memberName(id)} left out: ${e.message}` });
+    }
+  }
+
+  const names = uniquePreserveOrder(interleave(members.map(m => m.signals.names))).slice(0, artistCap(q));
+  const all = await queryArtists(names, q.legs, {
+    userAliases: Object.assign({}, ...members.map(m => userPreferences(m.id).aliases)),
+    spotifyIds: new Map(members.flatMap(m => [...m.signals.spotifyIds])),
+  }, hooks);
+
+  const ranked = rankGroup(clusterEvents(dedupe(all)), members.map(({ id, signals }) => ({
+    id,
+    name: memberName(id),
+    likedArtistNames: signals.likedSet,
+    topArtistNames: signals.topSet,
+    followedArtistNames: signals.followedSet,
+    affinity: signals.affinity,
+  })), {
+    legOrigins: new Map(q.legs.map(l => [l.name, { lat: l.lat, lon: l.lon }])),
+    profile: q.profile,
+    weights: q.weights,
+    mode,
+  });
+  return applyTicketFilter(ranked, q.tickets);
+}
+
+app.get("/api/groups", requireAuth, (req: any, res) => {
+  res.json({ groups: groupsOf(req.userId).map(g => groupView(g, req)) });
+});
+
+// body: { name }
+app.post("/api/groups", requireAuth, (req: any, res) => {
+  const body = parseQuery(GROUP_SCHEMA, req.body);
+  if (isApiError(body)) return res.status(400).json(body);
+  res.status(201).json(groupView(createGroup(req.userId, body.name), req));
+});
+
+app.get("/api/groups/:id", requireAuth, (req: any, res) => {
+  const g = memberGroup(req);
+  if (!g) return res.status(404).json({ error: "Not found" });
+  res.json(groupView(g, req));
+});
+
+// Invite link: sign in first if needed (the token survives the OAuth round trip), then join
+app.get("/join/:token", (req: any, res) => {
+  const g = groupByInvite(req.params.token);
+  if (!g) return res.status(404).send("This invite link is no longer valid");
+  const userId = resolveSession((req.session as any)?.sid);
+  if (!userId) {
+    (req.session as any).join = req.params.token;
+    return res.redirect("/login");
+  }
+  try {
+    joinGroup(g.id, userId);
+  } catch (e: any) {
+    return res.status(409).send(e.message);
+  }
+  res.redirect(`/?group=${encodeURIComponent(g.id)}`);
+});
+
+// owner only: the old link stops working
+app.post("/api/groups/:id/invite", requireAuth, (req: any, res) => {
+  const g = memberGroup(req);
+  if (!g) return res.status(404).json({ error: "Not found" });
+  if (g.owner !== req.userId) return res.status(403).json({ error: "Only the group owner can reset the invite link" });
+  res.json(groupView(rotateInvite(g.id)!, req));
+});
+
+// leave (":userId" = "me" or your own id), or the owner removes someone
+app.delete("/api/groups/:id/members/:userId", requireAuth, (req: any, res) => {
+  const g = memberGroup(req);
+  if (!g) return res.status(404).json({ error: "Not found" });
+  const target = req.params.userId === "me" ? req.userId : req.params.userId;
+  if (target !== req.userId && g.owner !== req.userId) {
+    return res.status(403).json({ error: "Only the group owner can remove members" });
+  }
+  if (!g.members.includes(target)) return res.status(404).json({ error: "Not a member" });
+  const after = leaveGroup(g.id, target);
+  res.json({ group: after && after.members.includes(req.userId) ? groupView(after, req) : null });
+});
+
+app.delete("/api/groups/:id", requireAuth, (req: any, res) => {
+  const g = memberGroup(req);
+  if (!g) return res.status(404).json({ error: "Not found" });
+  if (g.owner !== req.userId) return res.status(403).json({ error: "Only the group owner can delete the group" });
+  groups.delete(g.id);
+  res.json({ ok: true });
+});
+
+// The /api/events params (ignore list, ranking and place from the caller) plus ?match=total|majority|everyone
+app.get("/api/groups/:id/events", requireAuth, async (req: any, res) => {
+  const g = memberGroup(req);
+  if (!g) return res.status(404).json({ error: "Not found" });
+  try {
+    const p = parseQuery(GROUP_SEARCH_SCHEMA, req.query);
+    if (isApiError(p)) return res.status(400).json(p);
+    const q = await parseUserQuery(req.userId, req.query);
+    if ("error" in q) return res.status(400).json(q);
+    if (q.mode === "discover") return res.status(400).json(apiError("invalid_param", "mode=discover isn't available for groups", "mode"));
+
+    const failed: ArtistFailure[] = [];
+    const ranked = await searchGroup(g, q, p.match, { onFailure: (f) => failed.push(f) });
+    res.json({
+      ...eventsPage(ranked, q.view),
+      group: groupView(g, req),
+      match: p.match,
+      legs: q.legs,
+      place: q.legs.length === 1 ? q.legs[0].place : undefined,
+      failed,
+      providers: providerStatus(),
+    });
+  } catch (e: any) {
+    console.error(e);
+    res.status(500).json({ error: e.message || "Failed to fetch group events" });
+  }
+});
+
+/** ---------------- Background search jobs ---------------- */
+// POST a search, get a job id back; poll it or subscribe to its stream (see jobs.ts).
+// (/api/searches is taken by saved searches, which re-run on a schedule.)
+const MAX_ACTIVE_JOBS = 3;
+
+const runJob: JobRunner = async (job, hooks) => {
+  const q = await parseEventsQuery(job.params, userPreferences(job.owner), userLocations(job.owner));
+  if ("error" in q) throw new Error(q.error);
+  return searchEvents(job.owner, q, hooks);
+};
+
+function ownJob(req: any) {
+  const job = jobs.get(req.params.id);
+  return job && job.owner === req.userId ? job : undefined;
+}
+
+/** The job plus a page of its results: ranked once finished, found-so-far (unranked) before that */
+function jobResults(job: SearchJob, view: EventView) {
+  const progress = loadProgress(job.id);
+  const events = progress.ranked ?? dedupe(progress.events);
+  return { job, partial: !progress.ranked, ...eventsPage(events, view), failed: progress.failed };
+}
+
+app.get("/api/search-jobs", requireAuth, (req: any, res) => {
+  const list = jobs.all()
+    .map(([, j]) => j)
+    .filter(j => j.owner === req.userId)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  res.json({ jobs: list });
+});
+
+// body: the /api/events search params (SEARCH_SCHEMA); filters, sort and paging apply when reading results
+app.post("/api/search-jobs", requireAuth, async (req: any, res) => {
+  const params: Record<string, string> = {};
+  for (const k of Object.keys(SEARCH_SCHEMA)) {
+    const v = req.body?.[k];
+    if (v !== undefined && v !== null && v !== "") params[k] = Array.isArray(v) ? v.join(",") : String(v);
+  }
+  try {
+    const q = await parseUserQuery(req.userId, params);
+    if ("error" in q) return res.status(400).json(q);
+  } catch (e: any) {
+    console.error(e);
+    return res.status(500).json({ error: e.message || "Search failed" });
+  }
+
+  const active = jobs.all().filter(([, j]) => j.owner === req.userId && isActive(j)).length;
+  if (active >= MAX_ACTIVE_JOBS) {
+    return res.status(429).json({ error: `At most ${MAX_ACTIVE_JOBS} searches can run at once; cancel one first` });
+  }
+  const job = enqueue(req.userId, newId(), params);
+  res.status(202).location(`/api/search-jobs/${job.id}`).json({ id: job.id, status: job.status });
+});
+
+// ?page=&pageSize=&sort=&tier=… (EVENTS_VIEW_SCHEMA) over the results so far
+app.get("/api/search-jobs/:id", requireAuth, (req: any, res) => {
+  const job = ownJob(req);
+  if (!job) return res.status(404).json({ error: "Not found" });
+  const view = parseEventView(req.query);
+  if (isApiError(view)) return res.status(400).json(view);
+  res.json(jobResults(job, view));
+});
+
+/** SSE: `job` {job} now → `progress` {job} / `artist` {artist, events, done, total} / `failure` {…}
+ *  → `finished` {job, partial, count, page, pageSize, next_cursor, events, failed}, then the stream ends */
+app.get("/api/search-jobs/:id/stream", requireAuth, (req: any, res) => {
+  const job = ownJob(req);
+  if (!job) return res.status(404).json({ error: "Not found" });
+  const view = parseEventView(req.query);
+  if (isApiError(view)) return res.status(400).json(view);
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  send("job", { job });
+  if (!isActive(job)) {
+    send("finished", jobResults(job, view));
+    return res.end();
+  }
+
+  // closing the stream only unsubscribes; the job keeps running
+  const unsubscribe = subscribe(job.id, (ev) => {
+    if (ev.type === "progress") send("progress", { job: ev.job });
+    else if (ev.type === "artist") send("artist", { artist: ev.artist, events: ev.events, done: ev.done, total: ev.total });
+    else if (ev.type === "failure") send("failure", ev.failure);
+    else {
+      send("finished", jobResults(ev.job, view));
+      unsubscribe();
+      res.end();
+    }
+  });
+  req.on("close", unsubscribe);
+});
+
+// stops querying; the results so far stay readable
+app.post("/api/search-jobs/:id/cancel", requireAuth, (req: any, res) => {
+  const job = ownJob(req);
+  if (!job) return res.status(404).json({ error: "Not found" });
+  const after = cancelJob(job.id)!;
+  res.json({ id: after.id, status: after.status });
+});
+
+app.delete("/api/search-jobs/:id", requireAuth, (req: any, res) => {
+  const job = ownJob(req);
+  if (!job) return res.status(404).json({ error: "Not found" });
+  deleteJob(job.id);
+  res.json({ ok: true });
+});
+
+/** ---------------- Playlist of upcoming shows ---------------- */
+// Top tracks by everyone on the bills, in show order; re-running rewrites the same playlist.
+app.get("/api/me/playlist", requireAuth, (req: any, res) => {
+  const p = playlists.get(req.userId);
+  if (!p) return res.status(404).json({ error: "No playlist yet" });
+  res.json(p);
+});
+
+// body: { events: EventItem[] (the ranked list or the ones picked), name?, tracks_per_artist?, acts?, public? }
+app.post("/api/me/playlist", requireAuth, async (req: any, res) => {
+  const body = parseQuery(PLAYLIST_SCHEMA, req.body);
+  if (isApiError(body)) return res.status(400).json(body);
+  const events = parsePlaylistEvents(req.body?.events);
+  if (isApiError(events)) return res.status(400).json(events);
+
+  try {
+    const auth = await userAuth(req.userId);
+    // signed in before the playlist scopes were asked for
+    if (!hasScopes(auth.tokens, PLAYLIST_SCOPES)) {
+      return res.status(403).json({ error: "Sign in again to let Concerts Finder manage playlists", login: "/login" });
+    }
+    const out = await syncConcertPlaylist(req.userId, auth, events, {
+      name: body.name,
+      tracksPerArtist: body.tracks_per_artist,
+      acts: body.acts,
+      public: body.public,
+      overrides: userPreferences(req.userId).artist_map,
+    });
+    if (!out.playlist) return res.status(422).json({ error: "None of these acts were found on Spotify", missing: out.missing });
+    res.status(out.created ? 201 : 200).json(out);
+  } catch (e: any) {
+    console.error(e);
+    res.status(500).json({ error: e.message || "Playlist update failed" });
+  }
+});
+
+startJobWorker(runJob);
+
 const port = 3000;
 app.listen(port, () => {
   console.log(`Concerts Finder running at http://127.0.0.1:${port}`);
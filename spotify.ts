@@ -1,5 +1,7 @@
 // src/spotify.ts
-import fetch from "node-fetch";
+import { httpRequest } from "./transport";
+import { cached, hashKey, type CacheKind } from "./cache";
+import { backoffMs, retryAfterMs } from "./util";
 
 /* =========================
    OAuth: tokens & helpers
@@ -14,6 +16,12 @@ export type SpotifyTokens = {
   token_type?: string;
 };
 
+/** A user's live credentials. API helpers refresh `tokens` in place on 401; `onRefresh` persists them. */
+export type SpotifyAuth = {
+  tokens: SpotifyTokens;
+  onRefresh?: (tokens: SpotifyTokens) => void;
+};
+
 const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
 function requiredEnv(name: string) {
@@ -40,13 +48,14 @@ export async function exchangeCodeForToken(
     redirect_uri: redirectUri,
   });
 
-  const res = await fetch("https://accounts.spotify.com/api/token", {
+  const res = await httpRequest({
     method: "POST",
+    url: "https://accounts.spotify.com/api/token",
     headers: {
       Authorization: basicAuth(),
       "Content-Type": "application/x-www-form-urlencoded",
     },
-    body,
+    body: body.toString(),
   });
 
   const text = await res.text();
@@ -76,13 +85,14 @@ async function refreshAccessToken(tokens: SpotifyTokens): Promise<SpotifyTokens>
     refresh_token: tokens.refresh_token,
   });
 
-  const res = await fetch("https://accounts.spotify.com/api/token", {
+  const res = await httpRequest({
     method: "POST",
+    url: "https://accounts.spotify.com/api/token",
     headers: {
       Authorization: basicAuth(),
       "Content-Type": "application/x-www-form-urlencoded",
     },
-    body,
+    body: body.toString(),
   });
 
   const text = await res.text();
@@ -119,18 +129,90 @@ export async function ensureAccessToken(tokens: SpotifyTokens): Promise<SpotifyT
    Spotify Web API helpers
    ========================= */
 
-async function spGetUrl(url: string, accessToken: string) {
-  const res = await fetch(url, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-  const text = await res.text();
-  if (!res.ok) throw new Error(`Spotify GET ${url} failed: ${res.status} ${text}`);
-  return JSON.parse(text);
+const SP_MAX_RETRIES = 5;
+const SP_MAX_WAIT_MS = 120_000; // Retry-After beyond this = give up on the call
+
+// concurrent 401s on the same auth share one refresh
+const refreshing = new WeakMap<SpotifyAuth, Promise<void>>();
+
+async function refreshAuth(auth: SpotifyAuth, staleAccessToken: string) {
+  if (auth.tokens.access_token !== staleAccessToken) return; // someone already refreshed
+  let p = refreshing.get(auth);
+  if (!p) {
+    p = refreshAccessToken(auth.tokens)
+      .then((t) => {
+        auth.tokens = t;
+        auth.onRefresh?.(t);
+      })
+      .finally(() => refreshing.delete(auth));
+    refreshing.set(auth, p);
+  }
+  await p;
+}
+
+/** Cache per user (refresh-token hash survives access-token refreshes); top artists change slowly, library reads less so */
+function spCacheKind(url: string): CacheKind {
+  return url.includes("/me/top/") ? "sp:profile" : "sp:library";
+}
+
+/** A failed call; `status` lets callers tell "not found" from the rest */
+export type SpotifyError = Error & { status?: number };
+
+type SpWrite = { method: "POST" | "PUT"; body: unknown };
+
+/**
+ * GET (or a JSON write) with 429 (Retry-After) / 5xx (backoff) retries and one transparent
+ * token refresh on 401. A POST is only retried on 429: after a 5xx it may have gone through.
+ */
+async function spFetch(url: string, auth: SpotifyAuth, write?: SpWrite) {
+  const method = write?.method ?? "GET";
+  let refreshed = false;
+  for (let attempt = 0; ; attempt++) {
+    const accessToken = auth.tokens.access_token;
+    let res;
+    try {
+      res = await httpRequest({
+        method,
+        url,
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          ...(write && { "Content-Type": "application/json" }),
+        },
+        ...(write && { body: JSON.stringify(write.body) }),
+      });
+    } catch (e) {
+      if (attempt >= SP_MAX_RETRIES || method === "POST") throw e;
+      await sleep(backoffMs(attempt));
+      continue;
+    }
+    const text = await res.text();
+    if (res.ok) return text ? JSON.parse(text) : {};
+
+    if (res.status === 401 && !refreshed) {
+      refreshed = true;
+      await refreshAuth(auth, accessToken);
+      continue;
+    }
+
+    const retryable = res.status === 429 || (res.status >= 500 && method !== "POST");
+    const wait = retryAfterMs(res.headers.get("retry-after")) ?? backoffMs(attempt);
+    if (!retryable || attempt >= SP_MAX_RETRIES || wait > SP_MAX_WAIT_MS) {
+      const err: SpotifyError = new Error(`Spotify ${method} ${url} failed: ${res.status} ${text}`);
+      err.status = res.status;
+      throw err;
+    }
+    await sleep(wait);
+  }
+}
+
+async function spGetUrl(url: string, auth: SpotifyAuth) {
+  const user = hashKey(auth.tokens.refresh_token || auth.tokens.access_token);
+  return cached(spCacheKind(url), `${user}|${url}`, () => spFetch(url, auth));
 }
 
 async function spGet(
   path: string,
-  accessToken: string,
+  auth: SpotifyAuth,
   params: Record<string, any> = {}
 ) {
   const url = new URL(`https://api.spotify.com/v1${path}`);
@@ -139,50 +221,144 @@ async function spGet(
       url.searchParams.set(k, String(v));
     }
   }
-  return spGetUrl(url.toString(), accessToken);
+  return spGetUrl(url.toString(), auth);
+}
+
+/** Options for the pagers: a failure after the first page keeps what was fetched */
+export type PagingOpts = {
+  /** called instead of throwing when paging stops early; `fetched` = items kept */
+  onIncomplete?: (e: Error, fetched: number) => void;
+};
+
+/** Next page, or null if it failed after some items were already collected (first-page failures throw) */
+async function pageOrStop(url: string, auth: SpotifyAuth, fetched: number, opts: PagingOpts) {
+  try {
+    return await spGetUrl(url, auth);
+  } catch (e: any) {
+    if (fetched === 0) throw e;
+    console.error(`Spotify paging stopped early after ${fetched} items`, e);
+    opts.onIncomplete?.(e, fetched);
+    return null;
+  }
 }
 
 /* =========================
    User library & profile
    ========================= */
 
-/** Liked Songs (Saved Tracks) — returns ALL unique artists (paged) */
-export async function getSavedTrackArtists(accessToken: string, maxArtists = 10000) {
-  const out = new Map<string, { id: string; name: string }>();
+/** Current user's profile (id is the stable Spotify user id) */
+export async function getCurrentUser(auth: SpotifyAuth): Promise<{ id: string; display_name?: string }> {
+  const data = await spGet("/me", auth);
+  return { id: data.id, display_name: data.display_name ?? undefined };
+}
+
+export type SavedTrackArtist = {
+  id: string;
+  name: string;
+  /** how many Liked Songs feature this artist */
+  likedCount: number;
+  /** ISO `added_at` of the most recently saved track by this artist */
+  lastSavedAt?: string;
+};
+
+export type SavedTrack = {
+  id: string;
+  added_at: string;
+  artists: { id: string; name: string }[];
+};
+
+/**
+ * Liked Songs newest-first, bypassing the response cache, until `isKnown` accepts a track
+ * (e.g. the newest one already stored) or the library ends. `total` is the library size now.
+ */
+export async function getSavedTracksUntil(
+  auth: SpotifyAuth,
+  isKnown: (t: SavedTrack) => boolean = () => false,
+  opts: PagingOpts = {}
+) {
+  const tracks: SavedTrack[] = [];
+  let total = 0;
+  let reachedKnown = false;
+  let complete = true;
   let url: string | null = "https://api.spotify.com/v1/me/tracks?limit=50"; // max=50
 
-  while (url && out.size < maxArtists) {
-    const data = await spGetUrl(url, accessToken);
+  while (url) {
+    let data: any;
+    try {
+      data = await spFetch(url, auth);
+    } catch (e: any) {
+      if (!tracks.length) throw e;
+      console.error(`Spotify paging stopped early after ${tracks.length} items`, e);
+      opts.onIncomplete?.(e, tracks.length);
+      complete = false;
+      break;
+    }
+    total = Number(data.total ?? total);
     for (const item of data.items || []) {
-      const artists = item?.track?.artists || [];
-      for (const a of artists) {
-        if (a?.id && a?.name && !out.has(a.id)) {
-          out.set(a.id, { id: a.id, name: a.name });
-        }
-      }
+      const t: SavedTrack = {
+        id: item?.track?.id || "",
+        added_at: item?.added_at || "",
+        artists: (item?.track?.artists || [])
+          .filter((a: any) => a?.id && a?.name)
+          .map((a: any) => ({ id: a.id, name: a.name })),
+      };
+      if (isKnown(t)) { reachedKnown = true; break; }
+      tracks.push(t);
     }
+    if (reachedKnown) break;
     url = data.next || null; // cursor paging
     if (url) await sleep(120); // gentle throttle
   }
 
+  return { tracks, total, reachedKnown, complete };
+}
+
+/** Per-artist signals from saved tracks (newest-first), most recently saved artist first */
+export function artistsFromSavedTracks(tracks: SavedTrack[]): SavedTrackArtist[] {
+  const out = new Map<string, SavedTrackArtist>();
+  for (const t of tracks) {
+    for (const a of t.artists) {
+      const ex = out.get(a.id);
+      if (ex) ex.likedCount++;
+      // newest-first, so the first sighting is the latest save
+      else out.set(a.id, { id: a.id, name: a.name, likedCount: 1, lastSavedAt: t.added_at });
+    }
+  }
   return Array.from(out.values());
 }
 
+/** Liked Songs (Saved Tracks) — returns ALL unique artists (paged), most recently saved first */
+export async function getSavedTrackArtists(auth: SpotifyAuth, maxArtists = 10000, opts: PagingOpts = {}) {
+  const { tracks } = await getSavedTracksUntil(auth, undefined, opts);
+  return artistsFromSavedTracks(tracks).slice(0, maxArtists);
+}
+
+export type TopRange = "long_term" | "medium_term" | "short_term";
+
+export type TopArtist = {
+  id: string;
+  name: string;
+  genres: string[];
+  /** 1-based position in each top list the artist appears in */
+  ranks: { range: TopRange; position: number }[];
+};
+
 /** Top Artists — combines long_term + medium_term + short_term (unique) */
-export async function getTopArtists(accessToken: string) {
-  const ranges = ["long_term", "medium_term", "short_term"] as const;
-  const seen = new Map<string, { id: string; name: string; genres: string[] }>();
+export async function getTopArtists(auth: SpotifyAuth) {
+  const ranges: TopRange[] = ["long_term", "medium_term", "short_term"];
+  const seen = new Map<string, TopArtist>();
 
   for (const range of ranges) {
-    const data = await spGet("/me/top/artists", accessToken, {
+    const data = await spGet("/me/top/artists", auth, {
       time_range: range,
       limit: 50,
     });
-    for (const a of data.items || []) {
-      if (a?.id && !seen.has(a.id)) {
-        seen.set(a.id, { id: a.id, name: a.name, genres: a.genres || [] });
-      }
-    }
+    (data.items || []).forEach((a: any, i: number) => {
+      if (!a?.id) return;
+      const ex = seen.get(a.id);
+      if (ex) ex.ranks.push({ range, position: i + 1 });
+      else seen.set(a.id, { id: a.id, name: a.name, genres: a.genres || [], ranks: [{ range, position: i + 1 }] });
+    });
     await sleep(120);
   }
 
@@ -190,13 +366,14 @@ export async function getTopArtists(accessToken: string) {
 }
 
 /** Followed Artists — fetches ALL pages (cursor: after) */
-export async function getFollowedArtists(accessToken: string) {
+export async function getFollowedArtists(auth: SpotifyAuth, opts: PagingOpts = {}) {
   const out = new Map<string, { id: string; name: string; genres: string[] }>();
   let url: string | null =
     "https://api.spotify.com/v1/me/following?type=artist&limit=50";
 
   while (url) {
-    const data = await spGetUrl(url, accessToken);
+    const data = await pageOrStop(url, auth, out.size, opts);
+    if (!data) break;
     const block = data?.artists;
     for (const a of block?.items || []) {
       if (a?.id && !out.has(a.id)) {
@@ -214,8 +391,8 @@ export async function getFollowedArtists(accessToken: string) {
 }
 
 /** (Optional) Recently Played — keep if you need it elsewhere */
-export async function getRecentlyPlayedArtists(accessToken: string, limit = 50) {
-  const data = await spGet("/me/player/recently-played", accessToken, { limit });
+export async function getRecentlyPlayedArtists(auth: SpotifyAuth, limit = 50) {
+  const data = await spGet("/me/player/recently-played", auth, { limit });
   const set = new Map<string, { id: string; name: string }>();
   for (const item of data.items || []) {
     for (const a of item?.track?.artists || []) {
@@ -224,3 +401,73 @@ export async function getRecentlyPlayedArtists(accessToken: string, limit = 50)
   }
   return Array.from(set.values());
 }
+
+/* =========================
+   Artists & playlists (writes need the playlist-modify scopes)
+   ========================= */
+
+export const PLAYLIST_SCOPES = ["playlist-modify-private", "playlist-modify-public"];
+
+/** Whether the granted scopes cover `scopes`; tokens that don't say are given the benefit of the doubt */
+export function hasScopes(tokens: SpotifyTokens, scopes: string[]) {
+  if (!tokens.scope) return true;
+  const granted = new Set(tokens.scope.split(/\s+/));
+  return scopes.every((s) => granted.has(s));
+}
+
+/** Artist search, Spotify's relevance order */
+export async function searchArtists(auth: SpotifyAuth, name: string, limit = 5): Promise<{ id: string; name: string }[]> {
+  const data = await spGet("/search", auth, { type: "artist", q: name, limit });
+  return (data?.artists?.items || [])
+    .filter((a: any) => a?.id && a?.name)
+    .map((a: any) => ({ id: a.id, name: a.name }));
+}
+
+export type SpotifyTrack = { id: string; uri: string; name: string };
+
+/** An artist's most popular tracks (up to 10) in the user's market */
+export async function getArtistTopTracks(auth: SpotifyAuth, artistId: string): Promise<SpotifyTrack[]> {
+  const data = await spGet(`/artists/${encodeURIComponent(artistId)}/top-tracks`, auth, { market: "from_token" });
+  return (data?.tracks || [])
+    .filter((t: any) => t?.uri)
+    .map((t: any) => ({ id: t.id, uri: t.uri, name: t.name }));
+}
+
+export type SpotifyPlaylist = { id: string; name: string; url?: string; owner?: string };
+
+const toPlaylist = (p: any): SpotifyPlaylist => ({
+  id: p.id,
+  name: p.name,
+  url: p.external_urls?.spotify,
+  owner: p.owner?.id,
+});
+
+/** The playlist, or undefined if it's gone (never cached: it may change outside the app) */
+export async function getPlaylist(auth: SpotifyAuth, id: string): Promise<SpotifyPlaylist | undefined> {
+  try {
+    return toPlaylist(await spFetch(`https://api.spotify.com/v1/playlists/${encodeURIComponent(id)}?fields=id,name,external_urls,owner(id)`, auth));
+  } catch (e) {
+    if ((e as SpotifyError).status === 404) return undefined;
+    throw e;
+  }
+}
+
+export type PlaylistDetails = { name: string; description?: string; public?: boolean };
+
+export async function createPlaylist(auth: SpotifyAuth, userId: string, d: PlaylistDetails): Promise<SpotifyPlaylist> {
+  const url = `https://api.spotify.com/v1/users/${encodeURIComponent(userId)}/playlists`;
+  return toPlaylist(await spFetch(url, auth, { method: "POST", body: { public: false, ...d } }));
+}
+
+export async function updatePlaylistDetails(auth: SpotifyAuth, id: string, d: PlaylistDetails) {
+  await spFetch(`https://api.spotify.com/v1/playlists/${encodeURIComponent(id)}`, auth, { method: "PUT", body: d });
+}
+
+/** Make the playlist exactly `uris`, in order (Spotify takes 100 per call: replace, then append) */
+export async function replacePlaylistTracks(auth: SpotifyAuth, id: string, uris: string[]) {
+  const url = `https://api.spotify.com/v1/playlists/${encodeURIComponent(id)}/tracks`;
+  await spFetch(url, auth, { method: "PUT", body: { uris: uris.slice(0, 100) } });
+  for (let i = 100; i < uris.length; i += 100) {
+    await spFetch(url, auth, { method: "POST", body: { uris: uris.slice(i, i + 100) } });
+  }
+}
@@ -0,0 +1,23 @@
+// src/testenv.ts
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+
+/* =========================
+   Test environment — import first in every *.test.ts
+   ========================= */
+
+// Replays fixtures/ instead of calling the APIs, never reads a real .env, and keeps tables
+// in a throwaway DATA_DIR. Some modules read env at load time, hence "import first".
+
+Object.assign(process.env, {
+  HTTP_TRANSPORT: "replay",
+  FIXTURES_DIR: fileURLToPath(new URL("./fixtures", import.meta.url)),
+  DATA_DIR: mkdtempSync(join(tmpdir(), "concerts-test-")),
+  TICKETMASTER_API_KEY: "test-key",
+  SPOTIFY_CLIENT_ID: "test-client",
+  SPOTIFY_CLIENT_SECRET: "test-secret",
+  CACHE_DISABLED: "1",
+  TM_MIN_GAP_MS: "1",
+});
@@ -0,0 +1,103 @@
+// src/ticketmaster.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  findAttractionIdsByName,
+  findTicketmasterEventsByAttractionId,
+  findTicketmasterEventsByKeywordStrict,
+} from "./ticketmaster";
+import { indexStats } from "./eventindex";
+import { getTransport, setTransport, type Transport } from "./transport";
+
+// fixtures/app.ticketmaster.com — New York, first half of 2031
+const nyc = {
+  lat: 40.7128,
+  lon: -74.006,
+  radiusMiles: 50,
+  startDateTimeISO: "2031-01-01T00:00:00.000Z",
+  endDateTimeISO: "2031-06-30T23:59:59.000Z",
+};
+
+test("keyword search keeps the artist's own shows and drops tributes", async () => {
+  const events = await findTicketmasterEventsByKeywordStrict({ artistName: "Hans Zimmer", ...nyc });
+  assert.deepEqual(events.map((e) => e.event_name), ["Hans Zimmer Live", "Score Fest 2031"]);
+  assert.ok(events.every((e) => e.artist_name === "Hans Zimmer"));
+});
+
+test("title guard rejects 'music of' / orchestra nights even when the performer matches", async () => {
+  const names = (await findTicketmasterEventsByKeywordStrict({ artistName: "Hans Zimmer", ...nyc })).map((e) => e.event_name);
+  assert.ok(!names.includes("The Music of Hans Zimmer & Others"));
+  assert.ok(!names.includes("Hans Zimmer Live – Orchestra Night"));
+});
+
+test("a performer who only shares words with the artist is not a match", async () => {
+  const names = (await findTicketmasterEventsByKeywordStrict({ artistName: "Hans Zimmer", ...nyc })).map((e) => e.event_name);
+  assert.ok(!names.includes("Candlelight: Tribute to Hans Zimmer"));
+  assert.ok(!names.includes("Hans Zimmer Revisited"));
+});
+
+test("festival bills only need to clear the tribute words", async () => {
+  const events = await findTicketmasterEventsByKeywordStrict({ artistName: "Hans Zimmer", ...nyc });
+  const fest = events.find((e) => e.event_name === "Score Fest 2031");
+  assert.equal(fest?.festival, true);
+  assert.equal(fest?.lineup?.length, 8);
+  assert.ok(fest?.lineup?.every((a) => a.role === "performer"));
+});
+
+test("attraction id path trusts the id over the title", async () => {
+  const events = await findTicketmasterEventsByAttractionId({
+    attractionId: "K8vZ9171hz0",
+    expectedArtistName: "Hans Zimmer",
+    verifyName: false,
+    ...nyc,
+  });
+  assert.deepEqual(events.map((e) => e.event_name), ["Hans Zimmer Live", "Hans Zimmer Live – Orchestra Night"]);
+});
+
+test("attraction id path filters the shared index to the search's radius and dates", async () => {
+  const austin = { ...nyc, lat: 30.2672, lon: -97.7431 };
+  const events = await findTicketmasterEventsByAttractionId({
+    attractionId: "K8vZ9171hz0",
+    expectedArtistName: "Hans Zimmer",
+    verifyName: false,
+    ...austin,
+  });
+  assert.deepEqual(events.map((e) => [e.event_name, e.venue_name]), [["Hans Zimmer Live", "Moody Center"]]);
+});
+
+test("searches in different cities share one upstream lookup per attraction", async () => {
+  const replay = getTransport();
+  let calls = 0;
+  const counting: Transport = { id: "counting", request: (req) => (calls++, replay.request(req)) };
+  setTransport(counting);
+  try {
+    const before = indexStats().hits;
+    for (const lat of [40.7128, 30.2672, 40.7128]) {
+      await findTicketmasterEventsByAttractionId({ attractionId: "K8vZ9171hz0", expectedArtistName: "Hans Zimmer", ...nyc, lat });
+    }
+    assert.ok(calls <= 1);
+    assert.ok(indexStats().hits - before >= 2);
+  } finally {
+    setTransport(replay);
+  }
+});
+
+test("events carry venue coordinates and the headliner lineup", async () => {
+  const [live] = await findTicketmasterEventsByKeywordStrict({ artistName: "Hans Zimmer", ...nyc });
+  assert.equal(live.venue_name, "Madison Square Garden");
+  assert.equal(live.lat, 40.7505);
+  assert.deepEqual(live.lineup, [{ name: "Hans Zimmer", role: "headliner", id: "K8vZ9171hz0" }]);
+});
+
+test("findAttractionIdsByName (exact) keeps the artist only, not acts that merely start with the name", async () => {
+  // "Muse & The Royal Philharmonic": "&" is part of too many names to be proof of a co-bill
+  const ids = await findAttractionIdsByName("Muse", { exactOnly: true });
+  assert.deepEqual(ids, ["K8vZ917muse"]);
+});
+
+test("findAttractionIdsByName (loose) returns everything, best match first", async () => {
+  const ids = await findAttractionIdsByName("Muse", { exactOnly: false });
+  assert.equal(ids[0], "K8vZ917muse");
+  assert.equal(ids.length, 5);
+});
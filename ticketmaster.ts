@@ -1,4 +1,11 @@
-import fetch from "node-fetch";
+import { httpRequest } from "./transport";
+import { cached } from "./cache";
+import { matchPerformer, MATCH_CONFIDENT, MATCH_MIN, type ArtistMatch } from "./aliases";
+import type { EventItem, EventProvider, EventStatus, LineupAct, Presale, SearchWindow } from "./providers";
+import { backoffMs, retryAfterMs, runLimited, sleep } from "./util";
+import { freshMapping, recordMapping } from "./artistmap";
+import { indexedEvents, indexStats } from "./eventindex";
+import { distMiles } from "./rank";
 
 const TM_BASE = "https://app.ticketmaster.com/discovery/v2";
 
@@ -12,7 +19,7 @@ function isoToTm(iso: string) {
   return new Date(iso).toISOString().replace(/\.\d{3}Z$/, "Z");
 }
 
-function norm(s?: string) {
+export function norm(s?: string) {
   return (s || "")
     .normalize("NFKD")
     .replace(/[\u0300-\u036f]/g, "")
@@ -22,24 +29,125 @@ function norm(s?: string) {
     .trim();
 }
 
-async function tmGet(
-  path: string,
-  params: Record<string, string | number | boolean | undefined>
-) {
+/* ---------------- Client: throttle, retry, daily quota ---------------- */
+
+const TM_MIN_GAP_MS = Number(process.env.TM_MIN_GAP_MS) || 220; // TM allows ~5 req/s per key
+const TM_MAX_RETRIES = 4;
+const TM_MAX_WAIT_MS = 60_000; // longer Retry-After than this = give up on the call
+
+type TMQuota = {
+  day: string;          // UTC date the counter belongs to
+  used: number;         // upstream calls made today (cache hits are free)
+  budget: number;       // TM_DAILY_QUOTA
+  available?: number;   // last Rate-Limit-Available header
+  resetAt?: number;     // epoch ms from Rate-Limit-Reset
+  exhausted?: boolean;  // TM told us the quota is gone
+};
+
+const quota: TMQuota = {
+  day: "",
+  used: 0,
+  budget: Number(process.env.TM_DAILY_QUOTA) || 5000,
+};
+
+function rollQuotaDay() {
+  const today = new Date().toISOString().slice(0, 10);
+  if (quota.day !== today || (quota.resetAt && Date.now() >= quota.resetAt)) {
+    Object.assign(quota, { day: today, used: 0, available: undefined, resetAt: undefined, exhausted: false });
+  }
+}
+
+/** Snapshot of today's Ticketmaster usage */
+export function tmQuota() {
+  rollQuotaDay();
+  const left = Math.min(quota.budget - quota.used, quota.available ?? Infinity);
+  return { ...quota, remaining: quota.exhausted ? 0 : Math.max(0, left) };
+}
+
+function readRateHeaders(res: { headers: { get(k: string): string | null } }) {
+  const available = Number(res.headers.get("rate-limit-available"));
+  if (res.headers.get("rate-limit-available") !== null && Number.isFinite(available)) quota.available = available;
+  const reset = Number(res.headers.get("rate-limit-reset")); // epoch ms
+  if (Number.isFinite(reset) && reset > 0) quota.resetAt = reset;
+}
+
+// One shared slot clock so concurrent callers space out instead of bursting
+let nextSlot = 0;
+async function throttle() {
+  const now = Date.now();
+  const at = Math.max(now, nextSlot);
+  nextSlot = at + TM_MIN_GAP_MS;
+  if (at > now) await sleep(at - now);
+}
+
+/** GET with spacing, quota accounting and retries on 429/5xx (Retry-After, else jittered backoff) */
+async function tmFetch(url: URL, path: string) {
+  for (let attempt = 0; ; attempt++) {
+    if (tmQuota().remaining <= 0) {
+      throw new Error(`Ticketmaster daily quota exhausted (${quota.used}/${quota.budget} used)`);
+    }
+    await throttle();
+    quota.used++;
+
+    let res;
+    try {
+      res = await httpRequest({ method: "GET", url: url.toString() });
+    } catch (e) {
+      // network blip: same backoff as a 5xx
+      if (attempt >= TM_MAX_RETRIES) throw e;
+      await sleep(backoffMs(attempt));
+      continue;
+    }
+    readRateHeaders(res);
+    const text = await res.text();
+    if (res.ok) {
+      try { return JSON.parse(text); } catch { return {}; }
+    }
+
+    // "Rate limit quota violation" = the daily quota, not a burst; waiting won't help today
+    if (res.status === 429 && /quota/i.test(text) && !/spike/i.test(text)) {
+      quota.exhausted = true;
+      throw new Error(`Ticketmaster daily quota exhausted: ${res.status} ${text}`);
+    }
+
+    const retryable = res.status === 429 || res.status >= 500;
+    const wait = retryAfterMs(res.headers.get("retry-after")) ?? backoffMs(attempt);
+    if (!retryable || attempt >= TM_MAX_RETRIES || wait > TM_MAX_WAIT_MS) {
+      throw new Error(`Ticketmaster ${path} failed: ${res.status} ${text}`);
+    }
+    await sleep(wait);
+  }
+}
+
+type TMParams = Record<string, string | number | boolean | undefined>;
+
+function tmUrl(path: string, params: TMParams) {
   const url = new URL(`${TM_BASE}${path}`);
-  url.searchParams.set("apikey", tmKey());
   for (const [k, v] of Object.entries(params)) {
     if (v === undefined || v === null || v === "") continue;
     url.searchParams.set(k, String(v));
   }
-  const res = await fetch(url.toString());
-  const text = await res.text();
-  if (!res.ok) throw new Error(`Ticketmaster ${path} failed: ${res.status} ${text}`);
-  try { return JSON.parse(text); } catch { return {}; }
+  url.searchParams.sort();
+  return url;
+}
+
+async function tmGet(path: string, params: TMParams) {
+  const url = tmUrl(path, params);
+  const cacheKey = `${url.pathname}?${url.searchParams.toString()}`; // no apikey
+  const kind = path.startsWith("/attractions") ? "tm:attractions" : "tm:events";
+
+  return cached(kind, cacheKey, async () => {
+    url.searchParams.set("apikey", tmKey());
+    return tmFetch(url, path);
+  });
 }
 
 /* ---------------- Types ---------------- */
-type TMAttraction = { id: string; name: string };
+type TMAttraction = {
+  id: string;
+  name: string;
+  externalLinks?: { spotify?: { url?: string }[] };
+};
 type TMVenue = {
   name?: string;
   city?: { name?: string };
@@ -51,33 +159,115 @@ type TMEvent = {
   id: string;
   name: string;
   url: string;
-  dates?: { start?: { dateTime?: string } };
+  dates?: { start?: { dateTime?: string }; status?: { code?: string } };
+  priceRanges?: { type?: string; currency?: string; min?: number; max?: number }[];
+  sales?: {
+    public?: { startDateTime?: string; endDateTime?: string; startTBD?: boolean };
+    presales?: { name?: string; startDateTime?: string; endDateTime?: string }[];
+  };
+  seatmap?: { staticUrl?: string };
+  images?: { url: string; ratio?: string; width?: number; height?: number; fallback?: boolean }[];
+  classifications?: {
+    genre?: { name?: string };
+    subGenre?: { name?: string };
+    type?: { name?: string };
+    subType?: { name?: string };
+  }[];
   _embedded?: { attractions?: TMAttraction[]; venues?: TMVenue[] };
 };
 
-export type EventItem = {
-  source: "tm";
-  source_id: string;
-  event_name: string;
-  artist_name: string;
-  venue_name?: string;
-  city?: string;
-  state?: string;
-  country?: string;
-  lat?: number;
-  lon?: number;
-  start_utc?: string;
-  url: string;
+/** TM genre + sub-genre names, minus the "Undefined"/"Other" placeholders */
+function eventGenres(ev: TMEvent) {
+  const names = (ev.classifications || []).flatMap(c => [c.genre?.name, c.subGenre?.name]);
+  return [...new Set(names.filter((n): n is string => !!n && !/^(undefined|other)$/i.test(n)))];
+}
+
+/* ---------------- Tickets: price, sale windows, status, media ---------------- */
+
+const TM_STATUS: Record<string, EventStatus> = {
+  onsale: "onsale",
+  offsale: "offsale",
+  canceled: "cancelled",
+  cancelled: "cancelled",
+  postponed: "postponed",
+  rescheduled: "rescheduled",
 };
 
+/** Ticket fields for EventItem; only the ones TM actually sent */
+function eventTickets(ev: TMEvent): Partial<EventItem> {
+  const out: Partial<EventItem> = {};
+
+  const prices = (ev.priceRanges || []).filter(p => typeof p.min === "number" || typeof p.max === "number");
+  if (prices.length) {
+    const mins = prices.map(p => p.min ?? p.max!);
+    const maxs = prices.map(p => p.max ?? p.min!);
+    out.min_price = Math.min(...mins);
+    out.max_price = Math.max(...maxs);
+    out.currency = prices[0].currency;
+  }
+
+  const status = TM_STATUS[(ev.dates?.status?.code || "").toLowerCase()];
+  if (status) out.status = status;
+
+  const pub = ev.sales?.public;
+  if (pub?.startDateTime && !pub.startTBD) out.onsale_at = pub.startDateTime;
+  if (pub?.endDateTime) out.offsale_at = pub.endDateTime;
+
+  // TM has no "sold out" code: a show that's off sale inside its public sale window is
+  const now = Date.now();
+  if (
+    status === "offsale" &&
+    out.onsale_at && Date.parse(out.onsale_at) <= now &&
+    (!out.offsale_at || Date.parse(out.offsale_at) > now)
+  ) out.sold_out = true;
+
+  const presales: Presale[] = (ev.sales?.presales || [])
+    .filter(p => p.startDateTime || p.endDateTime)
+    .map(p => ({ name: p.name || "Presale", start: p.startDateTime, end: p.endDateTime }));
+  if (presales.length) out.presales = presales;
+
+  if (ev.seatmap?.staticUrl) out.seatmap_url = ev.seatmap.staticUrl;
+
+  // widest 16:9 image that isn't a placeholder, else whatever there is
+  const images = (ev.images || []).filter(i => !i.fallback);
+  const wide = images.filter(i => i.ratio === "16_9").sort((a, b) => (b.width || 0) - (a.width || 0));
+  const img = wide[0] || images[0];
+  if (img) out.image_url = img.url;
+
+  return out;
+}
+
+const FESTIVAL_TITLE = /\b(festival|fest|fiesta)\b/;
+const FESTIVAL_MIN_ACTS = 8;
+
+function isFestival(ev: TMEvent) {
+  const classes = (ev.classifications || []).flatMap(c => [c.type?.name, c.subType?.name, c.subGenre?.name]);
+  return (
+    classes.some(n => !!n && /festival/i.test(n)) ||
+    FESTIVAL_TITLE.test(norm(ev.name)) ||
+    (ev._embedded?.attractions?.length ?? 0) >= FESTIVAL_MIN_ACTS
+  );
+}
+
+/** Whole bill in TM's order: first act headlines, the rest support (festivals: all performers) */
+function eventLineup(ev: TMEvent, festival: boolean): LineupAct[] {
+  return (ev._embedded?.attractions || []).map((a, i) => ({
+    name: a.name,
+    role: festival ? "performer" : i === 0 ? "headliner" : "support",
+    id: a.id,
+  }));
+}
+
 /* ---------------- Performer-based mapper with title guardrails ---------------- */
 function mapEvents(
   artistName: string,      // Spotify artist (may be "")
   events: TMEvent[],
   ensureId?: string,       // TM attractionId we queried
-  expectedName?: string    // also require name==Spotify on ID path
+  expectedName?: string,   // also require name~Spotify on ID path (skip when the id is authoritative)
+  aliases: string[] = []   // other names the artist is billed under
 ): EventItem[] {
-  const nExpected = norm(expectedName || artistName);
+  const expected = expectedName || artistName;
+  const nExpected = norm(expected);
   const out: EventItem[] = [];
 
   // Ban tribute/“music of” style titles when we're NOT on an exact-id path.
@@ -87,25 +277,38 @@ function mapEvents(
   for (const ev of events || []) {
     const atts = ev._embedded?.attractions || [];
     let matched: TMAttraction | undefined;
+    let match: ArtistMatch | undefined;
 
+    // best-scoring performer (aliases, "A & The Band", "A (DJ Set)", fuzzy — see aliases.ts)
     for (const a of atts) {
       const byId = ensureId && a.id === ensureId;
-      const byName = nExpected ? norm(a.name) === nExpected : false;
+      const byName = expected ? matchPerformer(a.name, expected, aliases) : undefined;
+      if (byName && byName.confidence < MATCH_MIN) continue;
 
       const ok =
         (ensureId && expectedName ? (byId && byName) :
         ensureId ? byId :
         nExpected ? byName : false);
 
-      if (ok) { matched = a; break; }
+      if (ok && (!match || (byName?.confidence ?? 0) > match.confidence)) {
+        matched = a;
+        match = byName;
+        if (!match || match.via === "exact") break;
+      }
     }
 
+    // Generic path (no artist to verify): credit the headliner
+    if (!ensureId && !nExpected) matched = atts[0];
+
     if (!matched) continue;
 
+    const festival = isFestival(ev);
+
     // Title guard: if this is a name-match (no ensureId), reject obvious tributes/“music of …”
+    // (a festival that lists the artist on its bill only needs to clear the tribute words)
     if (!ensureId && nExpected) {
       const titleN = norm(ev.name);
-      if (bannedTitle.test(titleN)) {
+      if (festival ? /\b(tribute|music of)\b/.test(titleN) : bannedTitle.test(titleN)) {
         // Drop likely non-artist performances (e.g., "The Music of Hans Zimmer & Others")
         continue;
       }
@@ -116,7 +319,11 @@ function mapEvents(
       source: "tm",
       source_id: ev.id,
       event_name: ev.name,
-      artist_name: matched.name || artistName,
+      // credit the Spotify artist when the billing differs (or the id vouches for it), so ranking finds them
+      artist_name:
+        match && match.via !== "exact" ? expected :
+        ensureId && !expectedName && artistName ? artistName :
+        matched.name || artistName,
       venue_name: v.name,
       city: v.city?.name,
       state: v.state?.name,
@@ -125,6 +332,11 @@ function mapEvents(
       lon: v.location?.longitude ? parseFloat(v.location.longitude) : undefined,
       start_utc: ev.dates?.start?.dateTime,
       url: ev.url,
+      genres: eventGenres(ev),
+      lineup: eventLineup(ev, festival),
+      ...(festival && { festival }),
+      ...eventTickets(ev),
+      ...(match && match.via !== "exact" && { match: { ...match, billed_as: matched.name } }),
     });
   }
   return out;
@@ -132,29 +344,123 @@ function mapEvents(
 
 /* ---------------- Public APIs ---------------- */
 
+/** Attractions for any of the names; one keyword search per name (a non-Latin alias won't turn up under the Latin one) */
+async function searchAttractions(names: string[]) {
+  const byId = new Map<string, TMAttraction>();
+  for (const keyword of names) {
+    const data = await tmGet("/attractions.json", {
+      classificationName: "Music",
+      keyword,
+      size: 50,
+      sort: "name,asc",
+    });
+    for (const a of (data?._embedded?.attractions || []) as TMAttraction[]) byId.set(a.id, a);
+  }
+  return [...byId.values()];
+}
+
+/** Best name match first; `min` drops weaker ones */
+function rankByName(items: TMAttraction[], artistName: string, aliases: string[], min: number) {
+  return items
+    .map((a) => ({ a, conf: matchPerformer(a.name, artistName, aliases)?.confidence ?? 0 }))
+    .filter((x) => x.conf >= min)
+    .sort((x, y) => y.conf - x.conf)
+    .map((x) => x.a);
+}
+
+/**
+ * Attraction ids for an artist, best match first. `exactOnly` (default) keeps confident
+ * matches — the name itself, an alias, or a billing variant like "Artist & The Band".
+ */
 export async function findAttractionIdsByName(
   artistName: string,
-  opts?: { exactOnly?: boolean }
+  opts?: { exactOnly?: boolean; aliases?: string[] }
 ): Promise<string[]> {
-  const data = await tmGet("/attractions.json", {
-    classificationName: "Music",
-    keyword: artistName,
-    size: 50,
-    sort: "name,asc",
-  });
-  const items: TMAttraction[] = data?._embedded?.attractions || [];
-  const target = norm(artistName);
+  const aliases = opts?.aliases || [];
+  const items = await searchAttractions([artistName, ...aliases]);
+  return rankByName(items, artistName, aliases, opts?.exactOnly !== false ? MATCH_CONFIDENT : 0).map((a) => a.id);
+}
 
-  const exactIds = items.filter(a => norm(a.name) === target).map(a => a.id);
-  if (opts?.exactOnly !== false) return exactIds;
+const SPOTIFY_ARTIST_URL = /open\.spotify\.com\/(?:intl-[a-z-]+\/)?artist\/([A-Za-z0-9]+)/;
 
-  const others = items.filter(a => norm(a.name) !== target).map(a => a.id);
-  return [...exactIds, ...others];
+function linkedSpotifyIds(a: TMAttraction) {
+  return (a.externalLinks?.spotify || [])
+    .map((l) => l.url?.match(SPOTIFY_ARTIST_URL)?.[1])
+    .filter((id): id is string => !!id);
 }
 
+/**
+ * Attraction ids for a Spotify artist via the stored mapping (artistmap.ts), resolving and
+ * storing it when missing/stale. `verified` = the ids are known to be this artist.
+ */
+export async function attractionsForSpotifyArtist(
+  spotifyId: string,
+  artistName: string,
+  aliases: string[] = []
+): Promise<{ ids: string[]; verified: boolean }> {
+  const known = freshMapping(spotifyId);
+  if (known) return { ids: known.tm_ids, verified: known.source === "link" };
+
+  const items = await searchAttractions([artistName, ...aliases]);
+
+  // an attraction that links back to this Spotify artist settles it
+  const linked = items.filter((a) => linkedSpotifyIds(a).includes(spotifyId));
+  if (linked.length) {
+    const ids = linked.map((a) => a.id);
+    recordMapping({ spotify_id: spotifyId, name: artistName, tm_ids: ids, source: "link" });
+    return { ids, verified: true };
+  }
+
+  // else by name — minus attractions that link to a *different* Spotify artist of the same name
+  const candidates = items.filter((a) => !linkedSpotifyIds(a).length);
+  const ids = rankByName(candidates, artistName, aliases, MATCH_CONFIDENT).map((a) => a.id);
+  recordMapping({ spotify_id: spotifyId, name: artistName, tm_ids: ids, source: ids.length ? "name" : "none" });
+  return { ids, verified: false };
+}
+
+/* ---------------- Shared index (eventindex.ts) ---------------- */
+
+const INDEX_PAGE_SIZE = 200;
+const INDEX_MAX_PAGES = 5; // TM won't page past the 1000th result
+
+/** Every upcoming show of an attraction, anywhere: what the shared index stores */
+export async function fetchAttractionEvents(attractionId: string) {
+  const events: TMEvent[] = [];
+  for (let page = 0; page < INDEX_MAX_PAGES; page++) {
+    // not through tmGet: the index is the cache here
+    const url = tmUrl("/events.json", {
+      classificationName: "Music",
+      attractionId,
+      size: INDEX_PAGE_SIZE,
+      page: page || undefined,
+      sort: "date,asc",
+    });
+    url.searchParams.set("apikey", tmKey());
+    const data = await tmFetch(url, "/events.json");
+    events.push(...(data?._embedded?.events || []));
+    const totalPages = data?.page?.totalPages ?? 1;
+    if (page + 1 >= totalPages) return { events, truncated: false };
+  }
+  return { events, truncated: true };
+}
+
+/** What a TM geo + date query would have returned: venue within the radius (same 1–200 mile clamp), start in the window */
+function inWindow(ev: TMEvent, w: SearchWindow) {
+  const start = Date.parse(ev.dates?.start?.dateTime || "");
+  const loc = ev._embedded?.venues?.[0]?.location;
+  if (Number.isNaN(start) || !loc?.latitude || !loc?.longitude) return false;
+  if (start < Date.parse(w.startDateTimeISO) || start > Date.parse(w.endDateTimeISO)) return false;
+  const radius = Math.max(1, Math.min(200, Math.round(w.radiusMiles)));
+  return distMiles(w.lat, w.lon, parseFloat(loc.latitude), parseFloat(loc.longitude)) <= radius;
+}
+
+/** From the shared index (one live call per attraction per refresh), filtered to the search locally */
 export async function findTicketmasterEventsByAttractionId(opts: {
   attractionId: string;
   expectedArtistName: string;
+  aliases?: string[];
+  /** false when the id is known to be the artist (linked mapping or the user's override): skip the name check */
+  verifyName?: boolean;
   lat: number;
   lon: number;
   radiusMiles: number;
@@ -162,23 +468,21 @@ export async function findTicketmasterEventsByAttractionId(opts: {
   endDateTimeISO: string;
   size?: number;
 }) {
-  const data = await tmGet("/events.json", {
-    classificationName: "Music",
-    attractionId: opts.attractionId,
-    latlong: `${opts.lat},${opts.lon}`,
-    radius: Math.max(1, Math.min(200, Math.round(opts.radiusMiles))),
-    unit: "miles",
-    startDateTime: isoToTm(opts.startDateTimeISO),
-    endDateTime: isoToTm(opts.endDateTimeISO),
-    size: opts.size ?? 100,
-    sort: "date,asc",
-  });
-  const events: TMEvent[] = data?._embedded?.events || [];
-  return mapEvents(opts.expectedArtistName, events, opts.attractionId, opts.expectedArtistName);
+  const all = await indexedEvents<TMEvent>(opts.attractionId, fetchAttractionEvents);
+  const events = all.filter((ev) => inWindow(ev, opts)).slice(0, opts.size ?? 100);
+  const verify = opts.verifyName !== false;
+  return mapEvents(
+    opts.expectedArtistName,
+    events,
+    opts.attractionId,
+    verify ? opts.expectedArtistName : undefined,
+    opts.aliases
+  );
 }
 
 export async function findTicketmasterEventsByKeywordStrict(opts: {
   artistName: string;
+  aliases?: string[];
   lat: number;
   lon: number;
   radiusMiles: number;
@@ -198,7 +502,7 @@ export async function findTicketmasterEventsByKeywordStrict(opts: {
     sort: "date,asc",
   });
   const events: TMEvent[] = data?._embedded?.events || [];
-  return mapEvents(opts.artistName, events);
+  return mapEvents(opts.artistName, events, undefined, undefined, opts.aliases);
 }
 
 export async function findTicketmasterEventsGeneric(opts: {
@@ -208,9 +512,12 @@ export async function findTicketmasterEventsGeneric(opts: {
   startDateTimeISO: string;
   endDateTimeISO: string;
   size?: number;
+  /** TM genre names (OR'd); defaults to all of Music */
+  genres?: string[];
 }) {
   const data = await tmGet("/events.json", {
-    classificationName: "Music",
+    classificationName: opts.genres?.length ? opts.genres.join(",") : "Music",
+    segmentName: "Music",
     latlong: `${opts.lat},${opts.lon}`,
     radius: Math.max(1, Math.min(200, Math.round(opts.radiusMiles))),
     unit: "miles",
@@ -222,3 +529,49 @@ export async function findTicketmasterEventsGeneric(opts: {
   const events: TMEvent[] = data?._embedded?.events || [];
   return mapEvents("", events);
 }
+
+/* ---------------- Provider ---------------- */
+
+export const ticketmasterProvider: EventProvider = {
+  id: "tm",
+
+  resolveArtistId: (artistName) => findAttractionIdsByName(artistName, { exactOnly: true }),
+
+  // the user's override, else stored Spotify→attraction mapping, else confident name matches
+  // (verify name) → keyword (performer match; title ignored)
+  async findByArtist(artist, w, { aliases = [], spotifyId, tmIds } = {}) {
+    const { ids, verified } = tmIds
+      ? { ids: tmIds, verified: true }
+      : spotifyId
+      ? await attractionsForSpotifyArtist(spotifyId, artist, aliases)
+      : { ids: await findAttractionIdsByName(artist, { exactOnly: true, aliases }), verified: false };
+    if (ids.length) {
+      const errors: unknown[] = [];
+      const viaIds = await runLimited(
+        ids,
+        (id) =>
+          findTicketmasterEventsByAttractionId({
+            attractionId: id,
+            expectedArtistName: artist, // verify name matches Spotify artist, unless the mapping vouches for it
+            aliases,
+            verifyName: !verified,
+            ...w,
+          }),
+        2,
+        200,
+        { onError: (_id, e) => errors.push(e) }
+      );
+      if (viaIds.length) return viaIds;
+      if (errors.length) throw errors[0]; // don't pass off a failed lookup as "no shows"
+    }
+    // a keyword search could only add namesakes (or, for an override of [], the artist isn't on TM)
+    if (verified) return [];
+
+    // keyword (performer match; title ignored)
+    return findTicketmasterEventsByKeywordStrict({ artistName: artist, aliases, ...w });
+  },
+
+  findGeneric: (w) => findTicketmasterEventsGeneric(w),
+
+  status: () => ({ quota: tmQuota(), index: indexStats() }),
+};
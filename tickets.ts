@@ -0,0 +1,53 @@
+// src/tickets.ts
+import type { EventItem } from "./providers";
+
+/* =========================
+   Ticket filters, upcoming sales
+   ========================= */
+
+// ?max_price=80&hide_cancelled=1 — applied after ranking, so scores are untouched.
+// They're part of the search (saved with feeds and alerts); sort=onsale lives in query.ts.
+
+export type TicketFilter = {
+  /** drop events whose cheapest ticket costs more; events without a price are kept */
+  maxPrice?: number;
+  hideCancelled: boolean;
+};
+
+const time = (iso?: string) => (iso ? Date.parse(iso) : NaN);
+
+export function applyTicketFilter<T extends EventItem>(events: T[], f: TicketFilter): T[] {
+  return events.filter(e =>
+    (f.maxPrice === undefined || e.min_price === undefined || e.min_price <= f.maxPrice) &&
+    (!f.hideCancelled || e.status !== "cancelled")
+  );
+}
+
+/* ---------------- Upcoming sales (/api/presales) ---------------- */
+
+export type SaleOpening = { name: string; start: string; presale: boolean };
+
+/** Presales and the public on-sale that open between now and +days */
+export function salesOpening(e: EventItem, days: number, now = Date.now()): SaleOpening[] {
+  const until = now + days * 24 * 60 * 60 * 1000;
+  const inWindow = (iso?: string) => {
+    const t = time(iso);
+    return t >= now && t <= until;
+  };
+  const out: SaleOpening[] = (e.presales || [])
+    .filter(p => inWindow(p.start))
+    .map(p => ({ name: p.name, start: p.start!, presale: true }));
+  if (inWindow(e.onsale_at)) out.push({ name: "Public on-sale", start: e.onsale_at!, presale: false });
+  return out.sort((a, b) => time(a.start) - time(b.start));
+}
+
+/** Events with a sale opening soon, soonest first, each with its `next_sale` */
+export function upcomingSales<T extends EventItem>(events: T[], days: number) {
+  return events
+    .flatMap(e => {
+      const sales = salesOpening(e, days);
+      if (!sales.length || e.status === "cancelled") return [];
+      return [{ ...e, next_sale: sales[0], sales_opening: sales }];
+    })
+    .sort((a, b) => time(a.next_sale.start) - time(b.next_sale.start));
+}
@@ -0,0 +1,56 @@
+// src/transport.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fixturePath, jsonResponse, recordTransport, replayTransport, type Transport } from "./transport";
+
+const upstream: Transport = {
+  id: "stub",
+  async request(req) {
+    if (req.url.includes("/api/token")) {
+      return jsonResponse(200, { access_token: "live-access", refresh_token: "live-refresh", expires_in: 3600 });
+    }
+    return jsonResponse(200, { echo: req.url }, { "rate-limit-available": "4999", "x-secret-header": "nope" });
+  },
+};
+
+test("record then replay returns the same response", async () => {
+  const dir = mkdtempSync(join(tmpdir(), "fixtures-"));
+  const req = { method: "GET" as const, url: "https://app.ticketmaster.com/discovery/v2/events.json?keyword=Muse&apikey=test-key" };
+  const recorded = await (await recordTransport(dir, upstream).request(req)).text();
+  const res = await replayTransport(dir).request(req);
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get("rate-limit-available"), "4999");
+  assert.equal(res.headers.get("x-secret-header"), null);
+  assert.deepEqual(JSON.parse(await res.text()), JSON.parse(recorded.replace(/test-key/g, "REDACTED")));
+});
+
+test("fixtures match regardless of api key and param order", () => {
+  const a = fixturePath("/f", { method: "GET", url: "https://app.ticketmaster.com/x.json?b=2&a=1&apikey=one" });
+  const b = fixturePath("/f", { method: "GET", url: "https://app.ticketmaster.com/x.json?a=1&b=2&apikey=two" });
+  assert.equal(a, b);
+});
+
+test("recorded token responses are never usable", async () => {
+  const dir = mkdtempSync(join(tmpdir(), "fixtures-"));
+  const req = {
+    method: "POST" as const,
+    url: "https://accounts.spotify.com/api/token",
+    body: "grant_type=authorization_code&code=secret-code",
+  };
+  await recordTransport(dir, upstream).request(req);
+  const file = readFileSync(fixturePath(dir, req), "utf8");
+  assert.ok(!file.includes("live-access") && !file.includes("live-refresh") && !file.includes("secret-code"));
+  // a different code replays the same recording
+  const res = await replayTransport(dir).request({ ...req, body: "grant_type=authorization_code&code=other" });
+  assert.equal(JSON.parse(await res.text()).access_token, "recorded-access-token");
+});
+
+test("an unrecorded request replays as a 404 naming the fixture", async () => {
+  const res = await replayTransport(mkdtempSync(join(tmpdir(), "fixtures-"))).request({ method: "GET", url: "https://api.spotify.com/v1/me" });
+  assert.equal(res.status, 404);
+  assert.match(JSON.parse(await res.text()).error, /No fixture for GET https:\/\/api\.spotify\.com\/v1\/me/);
+});
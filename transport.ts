@@ -0,0 +1,184 @@
+// src/transport.ts
+import fetch from "node-fetch";
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { fakeTransport } from "./fake";
+
+/* =========================
+   Types
+   ========================= */
+
+// Everything spotify.ts and ticketmaster.ts send goes through httpRequest(), so the wire can be
+// swapped: live calls, recording them to fixture files, replaying those, or a built-in fake.
+
+export type HttpRequest = {
+  method: "GET" | "POST" | "PUT" | "DELETE";
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+};
+
+/** The slice of a fetch Response the API clients use */
+export type HttpResponse = {
+  status: number;
+  ok: boolean;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+};
+
+export interface Transport {
+  id: string;
+  request(req: HttpRequest): Promise<HttpResponse>;
+}
+
+export function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): HttpResponse {
+  const text = typeof body === "string" ? body : JSON.stringify(body);
+  const h = new Map(Object.entries({ "content-type": "application/json", ...headers }).map(([k, v]) => [k.toLowerCase(), v]));
+  return {
+    status,
+    ok: status >= 200 && status < 300,
+    headers: { get: (name) => h.get(name.toLowerCase()) ?? null },
+    text: async () => text,
+  };
+}
+
+/* =========================
+   Live
+   ========================= */
+
+export const liveTransport: Transport = {
+  id: "live",
+  request: ({ method, url, headers, body }) => fetch(url, { method, headers, body }),
+};
+
+/* =========================
+   Fixtures (record / replay)
+   ========================= */
+
+// One JSON file per distinct request: <FIXTURES_DIR>/<host>/<path-slug>-<hash>.json
+//   { request: { method, url }, response: { status, headers, body } }
+// The key ignores credentials — `apikey`, the Authorization header, and the code / refresh
+// token sent to the token endpoint — so a replay matches whoever recorded it.
+
+export type Fixture = {
+  request: { method: string; url: string };
+  response: { status: number; headers: Record<string, string>; body: unknown };
+};
+
+const SECRET_PARAMS = ["apikey"];
+const KEPT_HEADERS = ["content-type", "retry-after", "rate-limit", "rate-limit-available", "rate-limit-reset"];
+const TOKEN_URL = "https://accounts.spotify.com/api/token";
+
+/** URL without credentials, params sorted; token requests keyed by grant_type only */
+export function fixtureUrl(req: HttpRequest) {
+  const url = new URL(req.url);
+  for (const p of SECRET_PARAMS) url.searchParams.delete(p);
+  url.searchParams.sort();
+  if (req.url.startsWith(TOKEN_URL)) {
+    const grant = new URLSearchParams(req.body || "").get("grant_type");
+    if (grant) url.searchParams.set("grant_type", grant);
+  }
+  return url.toString();
+}
+
+export function fixturePath(dir: string, req: HttpRequest) {
+  const url = new URL(fixtureUrl(req));
+  const slug = url.pathname.replace(/[^A-Za-z0-9.]+/g, "-").replace(/^-+|-+$/g, "").slice(-60) || "root";
+  const hash = createHash("sha256").update(`${req.method} ${url}`).digest("hex").slice(0, 10);
+  return join(dir, url.host, `${slug}-${hash}.json`);
+}
+
+function fixturesDir() {
+  return process.env.FIXTURES_DIR || "fixtures";
+}
+
+/** Recorded tokens must never be usable; the secrets we know of are blanked wherever they appear */
+function redact(req: HttpRequest, body: string) {
+  let out = body;
+  for (const secret of [process.env.TICKETMASTER_API_KEY, process.env.SPOTIFY_CLIENT_SECRET]) {
+    if (secret) out = out.split(secret).join("REDACTED");
+  }
+  if (req.url.startsWith(TOKEN_URL)) {
+    try {
+      const json = JSON.parse(out);
+      if (json.access_token) json.access_token = "recorded-access-token";
+      if (json.refresh_token) json.refresh_token = "recorded-refresh-token";
+      out = JSON.stringify(json);
+    } catch { /* not JSON: leave it */ }
+  }
+  return out;
+}
+
+/** Live calls (through `upstream`), each response also written as a fixture */
+export function recordTransport(dir: string, upstream: Transport = liveTransport): Transport {
+  return {
+    id: "record",
+    async request(req) {
+      const res = await upstream.request(req);
+      const text = await res.text();
+      const headers: Record<string, string> = {};
+      for (const h of KEPT_HEADERS) {
+        const v = res.headers.get(h);
+        if (v !== null) headers[h] = v;
+      }
+      let body: unknown = redact(req, text);
+      try { body = JSON.parse(body as string); } catch { /* keep as text */ }
+
+      const fixture: Fixture = { request: { method: req.method, url: fixtureUrl(req) }, response: { status: res.status, headers, body } };
+      const file = fixturePath(dir, req);
+      mkdirSync(dirname(file), { recursive: true });
+      writeFileSync(file, JSON.stringify(fixture, null, 2) + "\n");
+
+      return jsonResponse(res.status, text, headers);
+    },
+  };
+}
+
+/** Recorded responses only; an unrecorded request is a 404 naming the missing fixture */
+export function replayTransport(dir: string): Transport {
+  return {
+    id: "replay",
+    async request(req) {
+      const file = fixturePath(dir, req);
+      if (!existsSync(file)) {
+        const error = `No fixture for ${req.method} ${fixtureUrl(req)} (expected ${file}; record it with HTTP_TRANSPORT=record)`;
+        console.error(`[replay] ${error}`);
+        return jsonResponse(404, { error });
+      }
+      const { response } = JSON.parse(readFileSync(file, "utf8")) as Fixture;
+      return jsonResponse(response.status, response.body, response.headers);
+    },
+  };
+}
+
+/* =========================
+   Registry (HTTP_TRANSPORT=live|record|replay|fake)
+   ========================= */
+
+const registry: Record<string, () => Transport> = {
+  live: () => liveTransport,
+  record: () => recordTransport(fixturesDir()),
+  replay: () => replayTransport(fixturesDir()),
+  fake: () => fakeTransport,
+};
+
+let active: Transport | null = null;
+
+export function getTransport(): Transport {
+  if (active) return active;
+  const id = process.env.HTTP_TRANSPORT || "live";
+  const make = registry[id];
+  if (!make) throw new Error(`Unknown HTTP_TRANSPORT "${id}" (known: ${Object.keys(registry).join(", ")})`);
+  active = make();
+  return active;
+}
+
+/** Swap the transport (e.g. in tests) */
+export function setTransport(t: Transport) {
+  active = t;
+}
+
+export function httpRequest(req: HttpRequest) {
+  return getTransport().request(req);
+}
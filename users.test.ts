@@ -0,0 +1,36 @@
+// src/users.test.ts
+import "./testenv";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createSession, pruneSessions, resolveSession, sessions, userSessions, users } from "./users";
+
+const DAY = 24 * 60 * 60 * 1000;
+const daysAgo = (n: number) => new Date(Date.now() - n * DAY).toISOString();
+
+users.set("u1", { id: "u1", tokens_enc: "", preferences: {}, locations: [], created_at: daysAgo(400), updated_at: daysAgo(1) });
+
+/** A session for u1 signed in `created` days ago and last used `seen` days ago */
+function aged(created: number, seen: number) {
+  const sid = createSession("u1");
+  sessions.set(sid, { user_id: "u1", created_at: daysAgo(created), last_seen_at: daysAgo(seen) });
+  return sid;
+}
+
+test("an idle session and one past its maximum age no longer sign anyone in", () => {
+  const active = aged(100, 1);
+  const idle = aged(40, 31);
+  const old = aged(181, 0);
+  assert.equal(resolveSession(active), "u1");
+  assert.equal(resolveSession(idle), undefined);
+  assert.equal(resolveSession(old), undefined);
+  assert.equal(sessions.get(idle), undefined, "dropped when looked up");
+  assert.deepEqual(userSessions("u1").map(([sid]) => sid), [active]);
+});
+
+test("pruning drops expired sessions nobody came back for", () => {
+  const keep = aged(10, 2);
+  const stale = [aged(60, 45), aged(200, 3)];
+  assert.equal(pruneSessions(), 2);
+  assert.ok(sessions.get(keep));
+  for (const sid of stale) assert.equal(sessions.get(sid), undefined);
+});
@@ -0,0 +1,172 @@
+// src/users.ts
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { openTable } from "./db";
+import { newId } from "./util";
+import type { SpotifyTokens } from "./spotify";
+import type { RankProfile, RankWeights } from "./rank";
+import type { ArtistOverride } from "./artistmap";
+
+/* =========================
+   Records
+   ========================= */
+
+export type SavedLocation = { id: string; name: string; lat: number; lon: number };
+
+export type UserPreferences = {
+  ranking?: { profile?: RankProfile; weights?: Partial<RankWeights> };
+  /** lower-cased artist names to leave out of searches */
+  ignore?: string[];
+  /** lower-cased artist name → other names it's billed under (on top of aliases.ts) */
+  aliases?: Record<string, string[]>;
+  /** Spotify artist id → the attractions to use for it in this user's searches (see artistmap.ts) */
+  artist_map?: Record<string, ArtistOverride>;
+};
+
+export type User = {
+  id: string;               // Spotify user id
+  display_name?: string;
+  tokens_enc: string;       // encrypted SpotifyTokens (see sealTokens)
+  preferences: UserPreferences;
+  locations: SavedLocation[];
+  feed_token?: string;      // current calendar feed, if any
+  created_at: string;
+  updated_at: string;
+};
+
+export type Session = {
+  user_id: string;
+  created_at: string;
+  last_seen_at: string;
+  user_agent?: string;
+};
+
+export const users = openTable<User>("users");
+export const sessions = openTable<Session>("sessions");
+
+/* =========================
+   Token encryption (AES-256-GCM)
+   ========================= */
+
+function encryptionKey() {
+  const secret = process.env.TOKEN_ENCRYPTION_KEY || process.env.SESSION_SECRET;
+  if (!secret) throw new Error("Missing env TOKEN_ENCRYPTION_KEY (or SESSION_SECRET)");
+  return createHash("sha256").update(secret).digest();
+}
+
+/** iv.tag.ciphertext, base64url */
+function sealTokens(tokens: SpotifyTokens) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const body = Buffer.concat([cipher.update(JSON.stringify(tokens), "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), body].map((b) => b.toString("base64url")).join(".");
+}
+
+function openTokens(sealed: string): SpotifyTokens {
+  const [iv, tag, body] = sealed.split(".").map((s) => Buffer.from(s, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return JSON.parse(Buffer.concat([decipher.update(body), decipher.final()]).toString("utf8"));
+}
+
+/* =========================
+   Users
+   ========================= */
+
+/** Create or update the user after a Spotify login */
+export function upsertUser(profile: { id: string; display_name?: string }, tokens: SpotifyTokens): User {
+  const now = new Date().toISOString();
+  const ex = users.get(profile.id);
+  const user: User = {
+    preferences: {},
+    locations: [],
+    created_at: now,
+    ...ex,
+    id: profile.id,
+    display_name: profile.display_name ?? ex?.display_name,
+    tokens_enc: sealTokens(tokens),
+    updated_at: now,
+  };
+  users.set(user.id, user);
+  return user;
+}
+
+export function getUserTokens(userId: string): SpotifyTokens {
+  const user = users.get(userId);
+  if (!user) throw new Error(`Unknown user ${userId}`);
+  return openTokens(user.tokens_enc);
+}
+
+export function saveUserTokens(userId: string, tokens: SpotifyTokens) {
+  updateUser(userId, (u) => ({ ...u, tokens_enc: sealTokens(tokens) }));
+}
+
+export function updateUser(userId: string, fn: (u: User) => User) {
+  const user = users.get(userId);
+  if (!user) throw new Error(`Unknown user ${userId}`);
+  const next = fn(user);
+  users.set(userId, { ...next, updated_at: new Date().toISOString() });
+  return next;
+}
+
+/* =========================
+   Sessions
+   ========================= */
+
+// a session ends after SESSION_IDLE_DAYS without a request (default 30), and SESSION_MAX_DAYS
+// after sign-in regardless (default 180)
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SESSION_IDLE_MS = (Number(process.env.SESSION_IDLE_DAYS) || 30) * DAY_MS;
+const SESSION_MAX_MS = (Number(process.env.SESSION_MAX_DAYS) || 180) * DAY_MS;
+
+function isExpired(s: Session, now = Date.now()) {
+  return now - Date.parse(s.last_seen_at) > SESSION_IDLE_MS || now - Date.parse(s.created_at) > SESSION_MAX_MS;
+}
+
+export function createSession(userId: string, userAgent?: string) {
+  const sid = newId(24);
+  const now = new Date().toISOString();
+  sessions.set(sid, { user_id: userId, created_at: now, last_seen_at: now, user_agent: userAgent });
+  return sid;
+}
+
+/** The session's user id, or undefined when the session is unknown/revoked/expired */
+export function resolveSession(sid: string | undefined) {
+  if (!sid) return undefined;
+  const s = sessions.get(sid);
+  if (!s || !users.get(s.user_id)) return undefined;
+  if (isExpired(s)) {
+    sessions.delete(sid);
+    return undefined;
+  }
+  // don't rewrite the table on every request
+  if (Date.now() - Date.parse(s.last_seen_at) > 10 * 60 * 1000) {
+    sessions.set(sid, { ...s, last_seen_at: new Date().toISOString() });
+  }
+  return s.user_id;
+}
+
+export function revokeSession(sid: string) {
+  sessions.delete(sid);
+}
+
+export function userSessions(userId: string) {
+  return sessions.all().filter(([, s]) => s.user_id === userId && !isExpired(s));
+}
+
+/** Drop expired sessions; returns how many */
+export function pruneSessions() {
+  const now = Date.now();
+  const expired = sessions.all().filter(([, s]) => isExpired(s, now));
+  sessions.batch(() => {
+    for (const [sid] of expired) sessions.delete(sid);
+  });
+  return expired.length;
+}
+
+/** Prune now and then hourly */
+export function startSessionPruner() {
+  pruneSessions();
+  const timer = setInterval(pruneSessions, 60 * 60 * 1000);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,65 @@
+// src/util.ts
+import { randomBytes } from "crypto";
+
+/** URL-safe random id (also used for secrets: pass more bytes) */
+export function newId(bytes = 9) {
+  return randomBytes(bytes).toString("base64url");
+}
+
+export async function sleep(ms: number) { return new Promise((r) => setTimeout(r, ms)); }
+
+/** Run `worker` over inputs with at most `limit` in flight and `gapMs` between calls per lane.
+ *  Failures are logged and skipped; results are flattened. */
+export async function runLimited<TInput, TOut>(
+  inputs: TInput[],
+  worker: (x: TInput) => Promise<TOut | TOut[]>,
+  limit = 2,
+  gapMs = 260,
+  opts: {
+    onSettled?: (item: TInput, out: TOut[]) => void; // after each input, success or not
+    onError?: (item: TInput, e: unknown) => void;     // worker threw (still logged)
+    signal?: AbortSignal;                            // stop picking up new inputs
+  } = {}
+): Promise<TOut[]> {
+  const results: TOut[] = [];
+  let idx = 0;
+
+  async function next(): Promise<void> {
+    if (opts.signal?.aborted) return;
+    const i = idx++;
+    if (i >= inputs.length) return;
+    const item = inputs[i];
+    let out: TOut[] = [];
+    try {
+      const r = await worker(item);
+      if (Array.isArray(r)) out = r;
+      else if (typeof r !== "undefined") out = [r];
+      results.push(...out);
+    } catch (e) {
+      console.error(e);
+      opts.onError?.(item, e);
+    }
+    opts.onSettled?.(item, out);
+    await sleep(gapMs);
+    return next();
+  }
+
+  const starters = Array.from({ length: Math.min(limit, inputs.length) }, () => next());
+  await Promise.all(starters);
+  return results;
+}
+
+/** Retry-After header (delta-seconds or HTTP date) → ms, or undefined if absent/unparseable */
+export function retryAfterMs(header: string | null | undefined) {
+  if (!header) return undefined;
+  const secs = Number(header);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(header);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
+/** Exponential backoff with "equal jitter": half fixed, half random, capped */
+export function backoffMs(attempt: number, baseMs = 500, capMs = 30_000) {
+  const d = Math.min(capMs, baseMs * 2 ** attempt);
+  return d / 2 + Math.random() * (d / 2);
+}